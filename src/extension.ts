@@ -1,8 +1,29 @@
 import * as vscode from 'vscode';
-import { WorkerDiscovery } from './providers/WorkerDiscovery';
+import { WorkerDiscovery, WRANGLER_CONFIG_GLOB } from './providers/WorkerDiscovery';
 import { KVDataProvider } from './providers/KVDataProvider';
 import { KVDocumentProvider, createKVUri } from './providers/KVDocumentProvider';
 import { registerKVTreeView } from './providers/KVTreeProvider';
+import { KVSearchIndex } from './providers/KVSearchIndex';
+import { KVValueEditorProvider, VALUE_VIEWER_TYPE } from './providers/KVValueEditorProvider';
+import { sniffContent, formatByteSize } from './providers/ContentSniffer';
+import { CloudflareKVClient } from './providers/CloudflareKVClient';
+import { registerExportCommands } from './providers/KVExporter';
+import { registerImportCommands } from './providers/KVImporter';
+import { registerSnapshotCommands } from './providers/KVSnapshotManager';
+import { registerHistoryCommands } from './providers/KVHistoryStore';
+import { registerCompareCommands } from './providers/KVNamespaceComparer';
+import { registerRemoteSyncCommands } from './providers/KVRemoteSync';
+import { KVRemoteDocumentProvider, REMOTE_SCHEME, createRemoteKVUri } from './providers/KVRemoteDocumentProvider';
+import { R2DataProvider, MAX_READ_OBJECT_SIZE } from './providers/R2DataProvider';
+import { R2DocumentProvider, R2_SCHEME, createR2Uri } from './providers/R2DocumentProvider';
+import { D1DataProvider } from './providers/D1DataProvider';
+import { SqliteReader } from './providers/SqliteReader';
+import { DurableObjectDataProvider } from './providers/DurableObjectDataProvider';
+import {
+  DurableObjectDocumentProvider,
+  DURABLE_OBJECT_SCHEME,
+  createDurableObjectUri
+} from './providers/DurableObjectDocumentProvider';
 
 // Create a global output channel for logging
 export const outputChannel = vscode.window.createOutputChannel('Cloudflare KV Explorer');
@@ -21,14 +42,79 @@ export function activate(context: vscode.ExtensionContext) {
   const workerDiscovery = new WorkerDiscovery();
   const kvDataProvider = new KVDataProvider();
   const documentProvider = new KVDocumentProvider(kvDataProvider);
+  const searchIndex = new KVSearchIndex(context.globalStorageUri.fsPath, kvDataProvider);
+  const remoteClient = new CloudflareKVClient(context.secrets);
+  const remoteDocumentProvider = new KVRemoteDocumentProvider(remoteClient);
+  const r2DataProvider = new R2DataProvider();
+  const r2DocumentProvider = new R2DocumentProvider(r2DataProvider);
+  const d1DataProvider = new D1DataProvider();
+  const sqliteReader = new SqliteReader();
+  const durableObjectDataProvider = new DurableObjectDataProvider(sqliteReader);
+  const durableObjectDocumentProvider = new DurableObjectDocumentProvider(durableObjectDataProvider);
 
-  // Register the virtual document provider for cloudflare-kv:// scheme
+  // Register the file system provider for cloudflare-kv:// scheme so entries can be saved
   context.subscriptions.push(
-    vscode.workspace.registerTextDocumentContentProvider('cloudflare-kv', documentProvider)
+    vscode.workspace.registerFileSystemProvider('cloudflare-kv', documentProvider, {
+      isCaseSensitive: true
+    })
+  );
+
+  // Remote entries are fetched through the REST API and can only be viewed
+  context.subscriptions.push(
+    vscode.workspace.registerFileSystemProvider(REMOTE_SCHEME, remoteDocumentProvider, {
+      isCaseSensitive: true,
+      isReadonly: true
+    })
+  );
+
+  // Local R2 objects can only be viewed
+  context.subscriptions.push(
+    vscode.workspace.registerFileSystemProvider(R2_SCHEME, r2DocumentProvider, {
+      isCaseSensitive: true,
+      isReadonly: true
+    })
+  );
+
+  // Durable Object storage values can only be viewed
+  context.subscriptions.push(
+    vscode.workspace.registerFileSystemProvider(DURABLE_OBJECT_SCHEME, durableObjectDocumentProvider, {
+      isCaseSensitive: true,
+      isReadonly: true
+    })
+  );
+
+  // Binary values (images, PDFs, anything that isn't text) open in a read-only viewer
+  context.subscriptions.push(
+    vscode.window.registerCustomEditorProvider(
+      VALUE_VIEWER_TYPE,
+      new KVValueEditorProvider(context.extensionUri, kvDataProvider, remoteClient, r2DataProvider, durableObjectDocumentProvider),
+      { supportsMultipleEditorsPerDocument: true }
+    )
   );
 
   // Register tree view in explorer
-  registerKVTreeView(context, workerDiscovery, kvDataProvider);
+  const treeProvider = registerKVTreeView(
+    context,
+    workerDiscovery,
+    kvDataProvider,
+    searchIndex,
+    remoteClient,
+    remoteDocumentProvider,
+    r2DataProvider,
+    r2DocumentProvider,
+    d1DataProvider,
+    sqliteReader,
+    durableObjectDataProvider,
+    durableObjectDocumentProvider
+  );
+
+  // Commands acting on namespaces and keys in the tree
+  registerExportCommands(context, kvDataProvider, treeProvider);
+  registerImportCommands(context, kvDataProvider);
+  registerSnapshotCommands(context, kvDataProvider, treeProvider);
+  registerHistoryCommands(context, kvDataProvider, treeProvider);
+  registerCompareCommands(context, kvDataProvider, treeProvider);
+  registerRemoteSyncCommands(context, kvDataProvider, remoteClient, remoteDocumentProvider, treeProvider);
 
   // Add command to show output logs
   context.subscriptions.push(
@@ -43,42 +129,60 @@ export function activate(context: vscode.ExtensionContext) {
       'cloudflare-kv-explorer.openKey',
       async (worker: any, namespaceId: string, key: string) => {
         const uri = createKVUri(worker.path, namespaceId, key);
-        
-        // Open the document
-        const doc = await vscode.workspace.openTextDocument(uri);
-        
-        // Show the document in editor
-        const editor = await vscode.window.showTextDocument(doc, {
-          preview: false,
-          preserveFocus: false
-        });
 
-        // Try to set the language mode based on content
-        let languageId = 'plaintext';
-        
-        // Check if it's JSON
+        const bytes = await kvDataProvider.getValueBytes(worker.path, namespaceId, key);
+        await showValue(uri, bytes);
+      }
+    )
+  );
+
+  // Register command to open a remote KV entry (read-only)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'cloudflare-kv-explorer.openRemoteKey',
+      async (namespaceId: string, key: string) => {
         try {
-          JSON.parse(doc.getText());
-          languageId = 'json';
-        } catch {
-          // Check for other patterns
-          const text = doc.getText();
-          if (text.trim().startsWith('<') && text.trim().endsWith('>')) {
-            languageId = 'html';
-          } else if (text.includes('function') || text.includes('const') || text.includes('let')) {
-            languageId = 'javascript';
-          } else if (text.includes('body') || text.includes('color:') || text.includes('margin:')) {
-            languageId = 'css';
-          }
+          const bytes = await remoteClient.getValue(namespaceId, key);
+          await showValue(createRemoteKVUri(namespaceId, key), bytes);
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to open ${key}: ${error instanceof Error ? error.message : error}`);
         }
+      }
+    )
+  );
 
-        // Set the language mode
-        vscode.languages.setTextDocumentLanguage(doc, languageId);
-
-        // If it's JSON, format it
-        if (languageId === 'json') {
-          await vscode.commands.executeCommand('editor.action.formatDocument');
+  // Register command to open an object in a local R2 bucket (read-only)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'cloudflare-kv-explorer.openR2Object',
+      async (worker: any, bucketName: string, key: string) => {
+        const object = await r2DataProvider.getObject(worker.path, bucketName, key);
+        if (object && object.size > MAX_READ_OBJECT_SIZE) {
+          // Too large to read into memory; its details still say what it is
+          vscode.window.showInformationMessage(
+            `${key} is ${formatByteSize(object.size)}, too large to open. Showing its details instead; Save Value As… writes it to a file.`
+          );
+          const doc = await vscode.workspace.openTextDocument(createR2Uri(worker.path, bucketName, key, true));
+          await vscode.languages.setTextDocumentLanguage(doc, 'json');
+          await vscode.window.showTextDocument(doc, { preview: false });
+          return;
         }
+        const bytes = await r2DataProvider.getObjectBytes(worker.path, bucketName, key);
+        // Object keys usually carry a file extension, which says more than the content does
+        await showValue(createR2Uri(worker.path, bucketName, key), bytes, false);
+      }
+    )
+  );
+
+  // Register command to open a value from a Durable Object's storage (read-only)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'cloudflare-kv-explorer.openDurableObjectValue',
+      async (dbPath: string, key: string) => {
+        const uri = createDurableObjectUri(dbPath, key);
+        // Deserialized values come back as JSON, anything else as the stored bytes
+        const content = await durableObjectDocumentProvider.readFile(uri).catch(() => null);
+        await showValue(uri, content);
       }
     )
   );
@@ -88,10 +192,18 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand(
       'cloudflare-kv-explorer.copyValue',
       async (worker: any, namespaceId: string, key: string) => {
-        const value = await kvDataProvider.getValue(worker.path, namespaceId, key);
-        if (value) {
-          await vscode.env.clipboard.writeText(value);
+        const bytes = await kvDataProvider.getValueBytes(worker.path, namespaceId, key);
+        if (!bytes) {
+          return;
+        }
+
+        // The clipboard only holds text, so binary values are copied as base64
+        if (sniffContent(bytes).kind === 'text') {
+          await vscode.env.clipboard.writeText(Buffer.from(bytes).toString('utf-8'));
           vscode.window.showInformationMessage(`Copied ${key} to clipboard`);
+        } else {
+          await vscode.env.clipboard.writeText(Buffer.from(bytes).toString('base64'));
+          vscode.window.showInformationMessage(`Copied ${key} to clipboard as base64 (binary value)`);
         }
       }
     )
@@ -155,7 +267,7 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Auto-detect workers on startup
   if (vscode.workspace.workspaceFolders) {
-    vscode.workspace.findFiles('**/wrangler.toml', '**/node_modules/**', 10).then(files => {
+    vscode.workspace.findFiles(WRANGLER_CONFIG_GLOB, '**/node_modules/**', 10).then(files => {
       if (files.length > 0) {
         // Show the tree view
         vscode.commands.executeCommand('cloudflareKVExplorer.focus');
@@ -170,11 +282,63 @@ export function activate(context: vscode.ExtensionContext) {
   // Clean up on deactivation
   context.subscriptions.push({
     dispose: () => {
+      documentProvider.dispose();
+      remoteDocumentProvider.dispose();
+      r2DocumentProvider.dispose();
+      r2DataProvider.dispose();
+      durableObjectDocumentProvider.dispose();
+      sqliteReader.dispose();
+      remoteClient.dispose();
+      searchIndex.dispose();
       kvDataProvider.dispose();
     }
   });
 }
 
+// Opens a value in the text editor, or in the value viewer when it isn't text. With
+// `guessLanguage` off, a language VS Code picked from the name is kept
+async function showValue(uri: vscode.Uri, bytes: Uint8Array | null, guessLanguage: boolean = true): Promise<void> {
+  if (bytes && sniffContent(bytes).kind !== 'text') {
+    await vscode.commands.executeCommand('vscode.openWith', uri, VALUE_VIEWER_TYPE, { preview: false });
+    return;
+  }
+
+  // Open the document
+  const doc = await vscode.workspace.openTextDocument(uri);
+
+  // Show the document in editor
+  await vscode.window.showTextDocument(doc, {
+    preview: false,
+    preserveFocus: false
+  });
+
+  if (!guessLanguage && doc.languageId !== 'plaintext') {
+    return;
+  }
+
+  // Try to set the language mode based on content
+  let languageId = 'plaintext';
+
+  // Check if it's JSON
+  try {
+    JSON.parse(doc.getText());
+    languageId = 'json';
+  } catch {
+    // Check for other patterns
+    const text = doc.getText();
+    if (text.trim().startsWith('<') && text.trim().endsWith('>')) {
+      languageId = 'html';
+    } else if (text.includes('function') || text.includes('const') || text.includes('let')) {
+      languageId = 'javascript';
+    } else if (text.includes('body') || text.includes('color:') || text.includes('margin:')) {
+      languageId = 'css';
+    }
+  }
+
+  // Set the language mode (JSON is already formatted by the document provider)
+  vscode.languages.setTextDocumentLanguage(doc, languageId);
+}
+
 export function deactivate() {
   // Clean up resources
 }
\ No newline at end of file
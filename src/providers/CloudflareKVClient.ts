@@ -0,0 +1,336 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+import { outputChannel, DEBUG } from '../extension';
+
+export const DEFAULT_API_BASE_URL = 'https://api.cloudflare.com/client/v4';
+
+const TOKEN_SECRET = 'cloudflareKVExplorer.apiToken';
+const ACCOUNT_SECRET = 'cloudflareKVExplorer.accountId';
+
+export interface RemoteNamespace {
+  id: string;
+  title: string;
+}
+
+export interface RemoteKey {
+  name: string;
+  // Seconds since the epoch
+  expiration?: number;
+  metadata?: unknown;
+}
+
+export interface RemoteKeyPage {
+  keys: RemoteKey[];
+  cursor?: string;
+}
+
+// An entry in the shape the bulk write endpoint takes
+export interface RemoteBulkValue {
+  key: string;
+  value: string;
+  base64?: boolean;
+  // Seconds since the epoch, at least 60 seconds ahead
+  expiration?: number;
+  metadata?: unknown;
+}
+
+// The bulk endpoints take at most 10,000 keys and 100 MB per request; stay well inside both
+const BULK_MAX_KEYS = 1000;
+const BULK_MAX_BYTES = 50 * 1024 * 1024;
+
+interface ApiEnvelope<T> {
+  success: boolean;
+  errors?: Array<{ code: number; message: string }>;
+  result: T;
+  result_info?: { page?: number; total_pages?: number; cursor?: string; count?: number };
+}
+
+interface ApiResponse {
+  status: number;
+  body: Buffer;
+}
+
+/**
+ * Minimal client for the Workers KV REST API. The API token and account ID live in VS Code's
+ * SecretStorage; the base URL comes from `cloudflareKVExplorer.remoteApiBaseUrl` so the client
+ * can be pointed at a local stand-in server. The token only goes to another host once the user
+ * has confirmed it.
+ */
+export class CloudflareKVClient implements vscode.Disposable {
+  private _onDidChangeCredentials = new vscode.EventEmitter<void>();
+  readonly onDidChangeCredentials = this._onDidChangeCredentials.event;
+  private secretsListener: vscode.Disposable;
+  // Base URLs other than the Cloudflare API the user has agreed to send their token to, this session
+  private confirmedBaseUrls: Map<string, Promise<boolean>> = new Map();
+
+  constructor(private secrets: vscode.SecretStorage) {
+    this.secretsListener = secrets.onDidChange(e => {
+      if (e.key === TOKEN_SECRET || e.key === ACCOUNT_SECRET) {
+        this._onDidChangeCredentials.fire();
+      }
+    });
+  }
+
+  async isConfigured(): Promise<boolean> {
+    return (await this.getCredentials()) !== undefined;
+  }
+
+  async getAccountId(): Promise<string | undefined> {
+    return (await this.getCredentials())?.accountId;
+  }
+
+  async setCredentials(apiToken: string, accountId: string): Promise<void> {
+    await this.secrets.store(TOKEN_SECRET, apiToken);
+    await this.secrets.store(ACCOUNT_SECRET, accountId);
+  }
+
+  async clearCredentials(): Promise<void> {
+    await this.secrets.delete(TOKEN_SECRET);
+    await this.secrets.delete(ACCOUNT_SECRET);
+  }
+
+  async listNamespaces(): Promise<RemoteNamespace[]> {
+    const namespaces: RemoteNamespace[] = [];
+    for (let page = 1; ; page++) {
+      const response = await this.requestJson<RemoteNamespace[]>('GET', `/storage/kv/namespaces?page=${page}&per_page=100`);
+      namespaces.push(...response.result);
+      if (!response.result_info?.total_pages || page >= response.result_info.total_pages) {
+        return namespaces;
+      }
+    }
+  }
+
+  /**
+   * One page of keys in key order. The API returns at most 1000 keys per page.
+   */
+  async listKeys(namespaceId: string, options: { limit?: number; cursor?: string; prefix?: string } = {}): Promise<RemoteKeyPage> {
+    const params = new URLSearchParams({ limit: String(Math.min(1000, Math.max(10, options.limit ?? 1000))) });
+    if (options.cursor) params.set('cursor', options.cursor);
+    if (options.prefix) params.set('prefix', options.prefix);
+
+    const response = await this.requestJson<RemoteKey[]>(
+      'GET',
+      `/storage/kv/namespaces/${encodeURIComponent(namespaceId)}/keys?${params}`
+    );
+    // The last page has an empty cursor
+    return { keys: response.result, cursor: response.result_info?.cursor || undefined };
+  }
+
+  async listAllKeys(namespaceId: string, prefix?: string): Promise<RemoteKey[]> {
+    const keys: RemoteKey[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.listKeys(namespaceId, { cursor, prefix });
+      keys.push(...page.keys);
+      cursor = page.cursor;
+    } while (cursor);
+    return keys;
+  }
+
+  /**
+   * The raw bytes of a value, or null when the key doesn't exist.
+   */
+  async getValue(namespaceId: string, key: string): Promise<Uint8Array | null> {
+    const response = await this.request('GET', `/storage/kv/namespaces/${encodeURIComponent(namespaceId)}/values/${encodeURIComponent(key)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    this.checkStatus(response);
+    return response.body;
+  }
+
+  async getMetadata(namespaceId: string, key: string): Promise<unknown> {
+    const response = await this.requestJson<unknown>(
+      'GET',
+      `/storage/kv/namespaces/${encodeURIComponent(namespaceId)}/metadata/${encodeURIComponent(key)}`
+    );
+    return response.result;
+  }
+
+  async putBulk(namespaceId: string, values: RemoteBulkValue[], onProgress?: (written: number) => void): Promise<void> {
+    let written = 0;
+    for (const batch of batchValues(values)) {
+      await this.requestJson<unknown>('PUT', `/storage/kv/namespaces/${encodeURIComponent(namespaceId)}/bulk`, batch);
+      written += batch.length;
+      onProgress?.(written);
+    }
+  }
+
+  async deleteBulk(namespaceId: string, keys: string[]): Promise<void> {
+    for (let start = 0; start < keys.length; start += BULK_MAX_KEYS) {
+      await this.requestJson<unknown>(
+        'POST',
+        `/storage/kv/namespaces/${encodeURIComponent(namespaceId)}/bulk/delete`,
+        keys.slice(start, start + BULK_MAX_KEYS)
+      );
+    }
+  }
+
+  private async getCredentials(): Promise<{ apiToken: string; accountId: string } | undefined> {
+    const apiToken = await this.secrets.get(TOKEN_SECRET);
+    const accountId = await this.secrets.get(ACCOUNT_SECRET);
+    return apiToken && accountId ? { apiToken, accountId } : undefined;
+  }
+
+  private getBaseUrl(): string {
+    return vscode.workspace
+      .getConfiguration('cloudflareKVExplorer')
+      .get<string>('remoteApiBaseUrl', DEFAULT_API_BASE_URL)
+      .replace(/\/+$/, '');
+  }
+
+  /**
+   * Asks once per session before the API token is sent to a base URL other than the Cloudflare
+   * API, since anything there receives it in the Authorization header.
+   */
+  private async confirmBaseUrl(baseUrl: string): Promise<void> {
+    const url = new URL(baseUrl);
+    if (url.protocol === 'https:' && url.host === new URL(DEFAULT_API_BASE_URL).host) {
+      return;
+    }
+
+    let confirmed = this.confirmedBaseUrls.get(baseUrl);
+    if (!confirmed) {
+      const unencrypted = url.protocol === 'http:' ? ' over an unencrypted connection' : '';
+      confirmed = Promise.resolve(vscode.window.showWarningMessage(
+        `Send your Cloudflare API token to ${url.host}?`,
+        {
+          modal: true,
+          detail: `cloudflareKVExplorer.remoteApiBaseUrl is set to ${baseUrl}, which isn't the Cloudflare API. ` +
+            `Requests there carry your API token${unencrypted}.`
+        },
+        'Send Token'
+      )).then(choice => choice === 'Send Token');
+      this.confirmedBaseUrls.set(baseUrl, confirmed);
+    }
+    if (!(await confirmed)) {
+      // Ask again next time
+      this.confirmedBaseUrls.delete(baseUrl);
+      throw new Error(`Request to ${url.host} cancelled: the API token wasn't sent`);
+    }
+  }
+
+  protected async requestJson<T>(method: string, path: string, body?: unknown): Promise<ApiEnvelope<T>> {
+    const response = await this.request(
+      method,
+      path,
+      body === undefined ? undefined : { contentType: 'application/json', data: Buffer.from(JSON.stringify(body)) }
+    );
+    this.checkStatus(response);
+
+    const envelope = JSON.parse(response.body.toString('utf-8')) as ApiEnvelope<T>;
+    if (!envelope.success) {
+      throw new Error(`Cloudflare API error: ${this.describeErrors(envelope)}`);
+    }
+    return envelope;
+  }
+
+  private checkStatus(response: ApiResponse): void {
+    if (response.status >= 200 && response.status < 300) {
+      return;
+    }
+    let detail = response.body.toString('utf-8').slice(0, 200);
+    try {
+      detail = this.describeErrors(JSON.parse(response.body.toString('utf-8')));
+    } catch {
+      // Not an API envelope (e.g. a proxy error page)
+    }
+    throw new Error(`Cloudflare API request failed (HTTP ${response.status}): ${detail}`);
+  }
+
+  private describeErrors(envelope: ApiEnvelope<unknown>): string {
+    return (envelope.errors || []).map(error => `${error.message} (${error.code})`).join('; ') || 'unknown error';
+  }
+
+  protected async request(
+    method: string,
+    path: string,
+    body?: { contentType: string; data: Buffer }
+  ): Promise<ApiResponse> {
+    const credentials = await this.getCredentials();
+    if (!credentials) {
+      throw new Error('Not connected to Cloudflare. Run "Connect to Cloudflare…" first.');
+    }
+
+    const baseUrl = this.getBaseUrl();
+    await this.confirmBaseUrl(baseUrl);
+
+    const url = new URL(`${baseUrl}/accounts/${encodeURIComponent(credentials.accountId)}${path}`);
+    if (DEBUG) outputChannel.appendLine(`[CloudflareKVClient] ${method} ${url}`);
+
+    const transport = url.protocol === 'http:' ? http : https;
+    return new Promise((resolve, reject) => {
+      const request = transport.request(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${credentials.apiToken}`,
+          ...(body ? { 'Content-Type': body.contentType, 'Content-Length': body.data.byteLength } : {})
+        },
+        timeout: 30000
+      }, response => {
+        const chunks: Buffer[] = [];
+        response.on('data', chunk => chunks.push(chunk));
+        response.on('end', () => resolve({ status: response.statusCode ?? 0, body: Buffer.concat(chunks) }));
+        response.on('error', reject);
+      });
+      request.on('timeout', () => request.destroy(new Error(`Request to ${url.host} timed out`)));
+      request.on('error', reject);
+      if (body) {
+        request.write(body.data);
+      }
+      request.end();
+    });
+  }
+
+  dispose(): void {
+    this.secretsListener.dispose();
+    this._onDidChangeCredentials.dispose();
+  }
+}
+
+function batchValues(values: RemoteBulkValue[]): RemoteBulkValue[][] {
+  const batches: RemoteBulkValue[][] = [];
+  let batch: RemoteBulkValue[] = [];
+  let size = 0;
+  for (const value of values) {
+    const valueSize = value.key.length + value.value.length;
+    if (batch.length > 0 && (batch.length >= BULK_MAX_KEYS || size + valueSize > BULK_MAX_BYTES)) {
+      batches.push(batch);
+      batch = [];
+      size = 0;
+    }
+    batch.push(value);
+    size += valueSize;
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+/**
+ * Asks for an API token and account ID and stores them. False when either prompt is dismissed.
+ */
+export async function promptForCredentials(remoteClient: CloudflareKVClient): Promise<boolean> {
+  const apiToken = await vscode.window.showInputBox({
+    title: 'Connect to Cloudflare (1/2)',
+    prompt: 'API token with Workers KV Storage read permission',
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: value => (value.trim() ? undefined : 'Enter an API token')
+  });
+  if (!apiToken) return false;
+
+  const accountId = await vscode.window.showInputBox({
+    title: 'Connect to Cloudflare (2/2)',
+    prompt: 'Account ID (shown in the Cloudflare dashboard sidebar)',
+    value: (await remoteClient.getAccountId()) ?? '',
+    ignoreFocusOut: true,
+    validateInput: value => (/^[0-9a-f]{32}$/i.test(value.trim()) || !value.trim() ? undefined : 'Account IDs are 32 hex characters')
+  });
+  if (!accountId?.trim()) return false;
+
+  await remoteClient.setCredentials(apiToken.trim(), accountId.trim());
+  return true;
+}
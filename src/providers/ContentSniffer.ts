@@ -0,0 +1,82 @@
+export type ValueKind = 'text' | 'image' | 'pdf' | 'binary';
+
+export interface ValueContent {
+  kind: ValueKind;
+  mimeType: string;
+  // Short human readable type, e.g. "PNG image"
+  description: string;
+}
+
+interface Signature {
+  bytes: number[];
+  offset?: number;
+  kind: ValueKind;
+  mimeType: string;
+  description: string;
+}
+
+// Magic numbers of the formats we can preview or at least name
+const SIGNATURES: Signature[] = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], kind: 'image', mimeType: 'image/png', description: 'PNG image' },
+  { bytes: [0xff, 0xd8, 0xff], kind: 'image', mimeType: 'image/jpeg', description: 'JPEG image' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], kind: 'image', mimeType: 'image/gif', description: 'GIF image' },
+  { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8, kind: 'image', mimeType: 'image/webp', description: 'WebP image' },
+  { bytes: [0x42, 0x4d], kind: 'image', mimeType: 'image/bmp', description: 'BMP image' },
+  { bytes: [0x00, 0x00, 0x01, 0x00], kind: 'image', mimeType: 'image/x-icon', description: 'ICO image' },
+  { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], kind: 'pdf', mimeType: 'application/pdf', description: 'PDF document' },
+  { bytes: [0x1f, 0x8b], kind: 'binary', mimeType: 'application/gzip', description: 'gzip data' },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], kind: 'binary', mimeType: 'application/zip', description: 'ZIP archive' },
+  { bytes: [0x28, 0xb5, 0x2f, 0xfd], kind: 'binary', mimeType: 'application/zstd', description: 'Zstandard data' },
+  { bytes: [0x00, 0x61, 0x73, 0x6d], kind: 'binary', mimeType: 'application/wasm', description: 'WebAssembly module' }
+];
+
+// Only this much of a value is inspected to decide whether it's text
+export const SNIFF_LENGTH = 64 * 1024;
+
+/**
+ * Decodes a value as UTF-8 text, or returns null when it isn't text (invalid UTF-8 or NUL bytes).
+ */
+export function decodeText(bytes: Uint8Array): string | null {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return text.includes('\0') ? null : text;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Works out what a value contains from its magic number, falling back to checking whether it's text.
+ */
+export function sniffContent(bytes: Uint8Array): ValueContent {
+  for (const signature of SIGNATURES) {
+    const offset = signature.offset ?? 0;
+    if (signature.bytes.every((byte, index) => bytes[offset + index] === byte)) {
+      // "BM" and the ICO header are short enough to appear at the start of text
+      if (signature.bytes.length > 2 || isBinaryPrefix(bytes)) {
+        return { kind: signature.kind, mimeType: signature.mimeType, description: signature.description };
+      }
+    }
+  }
+
+  if (!isBinaryPrefix(bytes)) {
+    return { kind: 'text', mimeType: 'text/plain', description: 'Text' };
+  }
+  return { kind: 'binary', mimeType: 'application/octet-stream', description: 'Binary data' };
+}
+
+function isBinaryPrefix(bytes: Uint8Array): boolean {
+  try {
+    // `stream` tolerates a multi-byte character cut off at the end of the sample
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, SNIFF_LENGTH), { stream: true });
+    return text.includes('\0');
+  } catch {
+    return true;
+  }
+}
+
+export function formatByteSize(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
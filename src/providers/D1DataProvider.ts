@@ -0,0 +1,62 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { durableObjectIdFromName } from './KVDataProvider';
+import { D1Database } from './WorkerDiscovery';
+
+export const D1_DATABASE_OBJECT_DIR = 'miniflare-D1DatabaseObject';
+
+/**
+ * Finds the SQLite files behind D1 bindings in Miniflare's local state. Like KV and R2, each
+ * database is a Durable Object database under `d1/miniflare-D1DatabaseObject`, named after the
+ * binding's database ID; the tables in it are the ones the worker created.
+ */
+export class D1DataProvider {
+  private statePaths: Map<string, string> = new Map(); // worker path -> resolved state directory
+
+  /**
+   * Records where each worker persists its state, as resolved by WorkerDiscovery.
+   */
+  setWorkers(workers: Array<{ path: string; statePath: string }>): void {
+    this.statePaths.clear();
+    for (const worker of workers) {
+      this.statePaths.set(worker.path, worker.statePath);
+    }
+  }
+
+  getD1Path(workerPath: string): string {
+    const statePath = this.statePaths.get(workerPath) ?? path.join(workerPath, '.wrangler', 'state', 'v3');
+    return path.join(statePath, 'd1');
+  }
+
+  /**
+   * The ID `wrangler dev` stores a binding's database under: `preview_database_id` when set,
+   * otherwise `database_id`. If only the other one has local state, that one is used.
+   */
+  async getLocalDatabaseId(workerPath: string, database: D1Database): Promise<string | undefined> {
+    const candidates = [database.previewDatabaseId, database.databaseId].filter((id): id is string => !!id);
+    for (const id of candidates) {
+      if (await this.findDatabase(workerPath, id)) {
+        return id;
+      }
+    }
+    return candidates[0];
+  }
+
+  // Miniflare derives the database name from the database ID; older releases kept db.sqlite in a directory per ID
+  async findDatabase(workerPath: string, databaseId: string): Promise<string | null> {
+    const d1Path = this.getD1Path(workerPath);
+    const candidates = [
+      path.join(d1Path, D1_DATABASE_OBJECT_DIR, `${durableObjectIdFromName(D1_DATABASE_OBJECT_DIR, databaseId)}.sqlite`),
+      path.join(d1Path, databaseId, 'db.sqlite')
+    ];
+    for (const dbPath of candidates) {
+      try {
+        await fs.access(dbPath);
+        return dbPath;
+      } catch {
+        // Try the next layout
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,183 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as v8 from 'v8';
+import { SqliteReader } from './SqliteReader';
+import { DurableObjectBinding } from './WorkerDiscovery';
+
+export interface DurableObjectInstance {
+  // Hex object ID; names given to idFromName() can't be recovered from it
+  id: string;
+  dbPath: string;
+  // Milliseconds since the epoch
+  modified: number;
+}
+
+// Object IDs are 32 bytes, written as hex
+const OBJECT_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+// Row of _cf_METADATA holding an object's alarm time
+const ALARM_METADATA_KEY = 1;
+
+// Database workerd keeps alarms in for every object of a class
+const ALARM_DATABASE = 'metadata.sqlite';
+
+// Alarm times above this are in nanoseconds rather than milliseconds; as milliseconds they'd be
+// tens of thousands of years away
+const NANOSECOND_ALARM_LIMIT = 1e15;
+
+/**
+ * Reads Durable Object storage from Miniflare's local state. Each class has a directory under
+ * `do/` named `<script>-<class>`, with one SQLite database per object. Storage API keys live in
+ * the `_cf_KV` table (values are V8-serialized), tables created through `ctx.storage.sql` sit
+ * next to it, and the alarm is kept in `_cf_METADATA`.
+ */
+export class DurableObjectDataProvider {
+  private workers: Array<{ path: string; name: string; statePath: string }> = [];
+
+  constructor(private sqliteReader: SqliteReader) {}
+
+  /**
+   * Records where each worker persists its state, as resolved by WorkerDiscovery.
+   */
+  setWorkers(workers: Array<{ path: string; name: string; statePath: string }>): void {
+    this.workers = workers.map(worker => ({ path: worker.path, name: worker.name, statePath: worker.statePath }));
+  }
+
+  /**
+   * The class's directory in the worker's own state, or, for a class defined by another worker in
+   * the workspace, in that worker's state.
+   */
+  async findClassDirectory(workerPath: string, binding: DurableObjectBinding): Promise<string | null> {
+    const statePaths = [
+      this.workers.find(worker => worker.path === workerPath)?.statePath ?? path.join(workerPath, '.wrangler', 'state', 'v3'),
+      ...this.workers.filter(worker => worker.path !== workerPath && worker.name === binding.scriptName).map(worker => worker.statePath)
+    ];
+    for (const statePath of statePaths) {
+      const classDir = path.join(statePath, 'do', `${binding.scriptName}-${binding.className}`);
+      try {
+        if ((await fs.stat(classDir)).isDirectory()) {
+          return classDir;
+        }
+      } catch {
+        // Not persisted here
+      }
+    }
+    return null;
+  }
+
+  // Objects of a class, most recently written first
+  async listObjects(classDir: string): Promise<DurableObjectInstance[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(classDir);
+    } catch {
+      return [];
+    }
+
+    const objects = await Promise.all(files
+      .filter(file => file.endsWith('.sqlite') && OBJECT_ID_PATTERN.test(file.slice(0, -'.sqlite'.length)))
+      .map(async file => {
+        const dbPath = path.join(classDir, file);
+        // The WAL is written first, so it has the latest modification time while wrangler dev runs
+        const times = await Promise.all([dbPath, `${dbPath}-wal`].map(file => fs.stat(file).then(stat => stat.mtimeMs, () => 0)));
+        return { id: file.slice(0, -'.sqlite'.length), dbPath, modified: Math.max(...times) };
+      }));
+    return objects.sort((a, b) => b.modified - a.modified);
+  }
+
+  // Keys written through the storage API, in key order; empty for objects that only use SQL
+  async listStorageKeys(dbPath: string): Promise<string[]> {
+    try {
+      const rows = await this.sqliteReader.select<{ key: string | Uint8Array }>(dbPath, 'SELECT key FROM _cf_KV ORDER BY key');
+      return rows.map(row => (typeof row.key === 'string' ? row.key : Buffer.from(row.key).toString('utf-8')));
+    } catch {
+      return [];
+    }
+  }
+
+  async getStorageValue(dbPath: string, key: string): Promise<Uint8Array | null> {
+    // Keys are normally text, which the primary key index finds directly
+    let rows = await this.sqliteReader.select<{ value: Uint8Array | null }>(
+      dbPath,
+      'SELECT value FROM _cf_KV WHERE key = ?',
+      [key]
+    );
+    if (rows.length === 0) {
+      // A key stored as a BLOB only matches its text once cast, which scans the table
+      rows = await this.sqliteReader.select<{ value: Uint8Array | null }>(
+        dbPath,
+        "SELECT value FROM _cf_KV WHERE typeof(key) = 'blob' AND CAST(key AS TEXT) = ?",
+        [key]
+      );
+    }
+    return rows.length > 0 ? rows[0].value ?? new Uint8Array() : null;
+  }
+
+  /**
+   * The object's pending alarm in milliseconds since the epoch, or null when none is set. Read from
+   * the object's own metadata, falling back to the class's alarm database.
+   */
+  async getAlarm(object: DurableObjectInstance): Promise<number | null> {
+    const own = await this.sqliteReader
+      .select<{ value: number | bigint | null }>(object.dbPath, 'SELECT value FROM _cf_METADATA WHERE key = ?', [ALARM_METADATA_KEY])
+      .catch(() => []);
+    if (own.length > 0) {
+      return toAlarmTime(own[0].value);
+    }
+
+    const scheduled = await this.sqliteReader
+      .select<{ scheduled_time: number | bigint | null }>(
+        path.join(path.dirname(object.dbPath), ALARM_DATABASE),
+        'SELECT scheduled_time FROM _cf_ALARM WHERE actor_id = ?',
+        [object.id]
+      )
+      .catch(() => []);
+    return scheduled.length > 0 ? toAlarmTime(scheduled[0].scheduled_time) : null;
+  }
+}
+
+function toAlarmTime(value: number | bigint | null): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const time = Number(value);
+  return time > NANOSECOND_ALARM_LIMIT ? Math.round(time / 1e6) : time;
+}
+
+/**
+ * A storage value as readable JSON, or null when it isn't V8-serialized data Node can read. Maps,
+ * Sets, BigInts and binary data, which JSON has no notation for, are spelled out.
+ */
+export function formatStorageValue(bytes: Uint8Array): string | null {
+  let value: unknown;
+  try {
+    value = v8.deserialize(Buffer.from(bytes));
+  } catch {
+    return null;
+  }
+  if (value === undefined) {
+    return 'undefined';
+  }
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item === 'bigint') {
+      return `${item}n`;
+    }
+    if (item instanceof Map) {
+      return [...item.keys()].every(key => typeof key === 'string') ? Object.fromEntries(item) : { Map: [...item] };
+    }
+    if (item instanceof Set) {
+      return { Set: [...item] };
+    }
+    if (item instanceof ArrayBuffer || ArrayBuffer.isView(item)) {
+      const view = item instanceof ArrayBuffer ? new Uint8Array(item) : new Uint8Array(item.buffer, item.byteOffset, item.byteLength);
+      return `<${view.byteLength} bytes: ${Buffer.from(view.subarray(0, 64)).toString('hex')}${view.byteLength > 64 ? '…' : ''}>`;
+    }
+    if (item instanceof RegExp) {
+      return String(item);
+    }
+    if (item instanceof Error) {
+      return { name: item.name, message: item.message };
+    }
+    return item;
+  }, 2);
+}
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import { DurableObjectDataProvider, formatStorageValue } from './DurableObjectDataProvider';
+
+export const DURABLE_OBJECT_SCHEME = 'cloudflare-do';
+
+/**
+ * Read-only view of values in a Durable Object's storage. Values Node can deserialize are shown
+ * as JSON; anything else is served as the stored bytes.
+ */
+export class DurableObjectDocumentProvider implements vscode.FileSystemProvider {
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this._onDidChangeFile.event;
+
+  constructor(private durableObjectDataProvider: DurableObjectDataProvider) {}
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => {});
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const content = await this.readFile(uri);
+    return {
+      type: vscode.FileType.File,
+      ctime: 0,
+      mtime: Date.now(),
+      size: content.byteLength,
+      permissions: vscode.FilePermission.Readonly
+    };
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const { dbPath, key } = parseDurableObjectUri(uri);
+    const bytes = await this.durableObjectDataProvider.getStorageValue(dbPath, key).catch(() => null);
+    if (!bytes) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    const json = formatStorageValue(bytes);
+    return json !== null ? new TextEncoder().encode(json) : bytes;
+  }
+
+  readDirectory(uri: vscode.Uri): [string, vscode.FileType][] {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  writeFile(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+
+  // Nothing is cached, so open documents only need telling to read again (e.g. on Refresh)
+  refreshAll(): void {
+    const uris = vscode.workspace.textDocuments.map(doc => doc.uri).filter(uri => uri.scheme === DURABLE_OBJECT_SCHEME);
+    if (uris.length > 0) {
+      this._onDidChangeFile.fire(uris.map(uri => ({ type: vscode.FileChangeType.Changed, uri })));
+    }
+  }
+
+  dispose() {
+    this._onDidChangeFile.dispose();
+  }
+}
+
+export function parseDurableObjectUri(uri: vscode.Uri): { dbPath: string; key: string } {
+  // URI format: cloudflare-do://object-database-path/key
+  const key = uri.path.slice(1);
+  if (!uri.authority || !key) {
+    throw vscode.FileSystemError.FileNotFound(uri);
+  }
+  return { dbPath: decodeURIComponent(uri.authority), key: decodeURIComponent(key) };
+}
+
+export function createDurableObjectUri(dbPath: string, key: string): vscode.Uri {
+  return vscode.Uri.from({
+    scheme: DURABLE_OBJECT_SCHEME,
+    authority: encodeURIComponent(dbPath),
+    path: `/${encodeURIComponent(key)}`
+  });
+}
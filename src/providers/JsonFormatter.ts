@@ -0,0 +1,70 @@
+/**
+ * Re-lays out JSON text without parsing it into JavaScript values, so numbers, string escapes and
+ * everything else keep their exact spelling. `JSON.stringify(JSON.parse(text))` would round large
+ * integers, turn `1.0` into `1` and rewrite escapes like `\u00e9`.
+ */
+
+/**
+ * Pretty-prints JSON the way `JSON.stringify(value, null, indent)` lays it out. Throws for text
+ * that isn't valid JSON.
+ */
+export function formatJson(text: string, indent: number = 2): string {
+  return layout(text, ' '.repeat(indent));
+}
+
+/**
+ * JSON with every insignificant whitespace character removed. Throws for text that isn't valid JSON.
+ */
+export function compactJson(text: string): string {
+  return layout(text, null);
+}
+
+function layout(text: string, indent: string | null): string {
+  // Only used to validate; the output is built from the original tokens
+  JSON.parse(text);
+
+  let out = '';
+  let depth = 0;
+  const newline = () => (indent === null ? '' : `\n${indent.repeat(depth)}`);
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      const start = i;
+      for (i++; text[i] !== '"'; i++) {
+        if (text[i] === '\\') {
+          i++;
+        }
+      }
+      out += text.slice(start, i + 1);
+    } else if (char === '{' || char === '[') {
+      const next = nextToken(text, i + 1);
+      if (text[next] === '}' || text[next] === ']') {
+        // Empty object or array stays on one line
+        out += char + text[next];
+        i = next;
+      } else {
+        depth++;
+        out += char + newline();
+      }
+    } else if (char === '}' || char === ']') {
+      depth--;
+      out += newline() + char;
+    } else if (char === ',') {
+      out += char + newline();
+    } else if (char === ':') {
+      out += indent === null ? ':' : ': ';
+    } else if (char !== ' ' && char !== '\t' && char !== '\n' && char !== '\r') {
+      out += char;
+    }
+  }
+  return out;
+}
+
+function nextToken(text: string, from: number): number {
+  let i = from;
+  while (i < text.length && ' \t\n\r'.includes(text[i])) {
+    i++;
+  }
+  return i;
+}
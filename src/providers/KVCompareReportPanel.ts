@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { CompareSide, NamespaceComparison } from './KVNamespaceComparer';
+import { createKVUri } from './KVDocumentProvider';
+import { createExportFileUri } from './KVExportFileDocumentProvider';
+
+/**
+ * Webview listing how two namespaces differ. Clicking a changed key opens it in the diff editor;
+ * clicking a key that only one side has opens it.
+ */
+export class KVCompareReportPanel {
+  static show(a: CompareSide, b: CompareSide, comparison: NamespaceComparison): void {
+    const panel = vscode.window.createWebviewPanel(
+      'cloudflareKVCompareReport',
+      `${a.label} ↔ ${b.label}`,
+      vscode.ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    panel.webview.html = getHtml(a, b, comparison);
+
+    panel.webview.onDidReceiveMessage(async (message: { command: string; key: string; side?: 'a' | 'b' }) => {
+      if (message.command === 'diff') {
+        await vscode.commands.executeCommand(
+          'vscode.diff',
+          getSideUri(a, message.key),
+          getSideUri(b, message.key),
+          `${message.key}: ${a.label} ↔ ${b.label}`
+        );
+      } else if (message.command === 'open') {
+        const side = message.side === 'b' ? b : a;
+        const document = await vscode.workspace.openTextDocument(getSideUri(side, message.key));
+        await vscode.window.showTextDocument(document, { preview: true });
+      }
+    });
+  }
+}
+
+function getSideUri(side: CompareSide, key: string): vscode.Uri {
+  return side.kind === 'namespace'
+    ? createKVUri(side.workerPath, side.namespaceId, key)
+    : createExportFileUri(side.path, key);
+}
+
+function getHtml(a: CompareSide, b: CompareSide, comparison: NamespaceComparison): string {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const keyLink = (key: string, command: string, side?: string) =>
+    `<a href="#" data-command="${command}" data-key="${escapeHtml(key)}"${side ? ` data-side="${side}"` : ''}>${escapeHtml(key)}</a>`;
+
+  const section = (title: string, rows: string[]) => `
+    <h2>${title} <span class="count">${rows.length}</span></h2>
+    ${rows.length > 0 ? `<ul>${rows.join('')}</ul>` : '<p class="note">None</p>'}`;
+
+  const changedRows = comparison.changed.map(change => {
+    const what = [change.value && 'value', change.metadata && 'metadata', change.expiration && 'expiration']
+      .filter(Boolean)
+      .join(', ');
+    return `<li>${keyLink(change.key, 'diff')} <span class="note">${what}</span></li>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+    h2 { font-size: 1.1em; margin-top: 20px; }
+    .count, .note { color: var(--vscode-descriptionForeground); font-weight: normal; }
+    ul { list-style: none; padding-left: 0; font-family: var(--vscode-editor-font-family); }
+    li { padding: 2px 0; }
+    a { color: var(--vscode-textLink-foreground); text-decoration: none; }
+    a:hover { text-decoration: underline; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(a.label)} ↔ ${escapeHtml(b.label)}</h1>
+  <p class="note">${comparison.identical} identical keys</p>
+  ${section('Changed', changedRows)}
+  ${section(`Only in ${escapeHtml(a.label)}`, comparison.onlyInA.map(key => `<li>${keyLink(key, 'open', 'a')}</li>`))}
+  ${section(`Only in ${escapeHtml(b.label)}`, comparison.onlyInB.map(key => `<li>${keyLink(key, 'open', 'b')}</li>`))}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.addEventListener('click', event => {
+      const link = event.target.closest('a[data-command]');
+      if (link) {
+        event.preventDefault();
+        vscode.postMessage({ command: link.dataset.command, key: link.dataset.key, side: link.dataset.side });
+      }
+    });
+  </script>
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+}
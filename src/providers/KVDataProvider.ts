@@ -1,5 +1,7 @@
+import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
 import * as sqlite3 from '@vscode/sqlite3';
 
 export interface KVEntry {
@@ -14,13 +16,90 @@ export interface KVData {
   entries: KVEntry[];
 }
 
+export interface KVPage {
+  entries: KVEntry[];
+  // Last key of this page when more entries follow
+  cursor?: string;
+}
+
+export interface KVPutOptions {
+  expiration?: number;
+  metadata?: string;
+}
+
+export interface KVBulkValue {
+  key: string;
+  value: string | Uint8Array;
+  options?: KVPutOptions;
+}
+
+// How a namespace's database was found: derived like Miniflare does, the pre-migration
+// per-namespace file, or (fallback) by sampling blob IDs
+export type NamespaceResolutionMethod = 'derived' | 'legacy' | 'sampled';
+
+export interface NamespaceResolution {
+  dbPath: string;
+  method: NamespaceResolutionMethod;
+}
+
+export const KV_NAMESPACE_OBJECT_DIR = 'miniflare-KVNamespaceObject';
+
+export interface LocalKVState {
+  // Namespace directories under the kv state directory
+  namespaceIds: string[];
+  // Databases that neither a namespace directory nor a known namespace ID resolves to
+  orphanDatabases: string[];
+}
+
+// Cloudflare (and Miniflare) reject metadata that serialises to more than this many bytes
+export const MAX_METADATA_SIZE = 1024;
+
+// Cloudflare rejects TTLs, and expirations, less than this many seconds ahead
+export const MIN_TTL = 60;
+
+/**
+ * Derives the Durable Object ID workerd assigns to `idFromName(name)` for an object namespace
+ * with the given unique key. Miniflare stores each object's SQLite database as `<id>.sqlite`.
+ */
+export function durableObjectIdFromName(uniqueKey: string, name: string): string {
+  const key = crypto.createHash('sha256').update(uniqueKey).digest();
+  const nameHmac = crypto.createHmac('sha256', key).update(name).digest().subarray(0, 16);
+  const hmac = crypto.createHmac('sha256', key).update(nameHmac).digest().subarray(0, 16);
+  return Buffer.concat([nameHmac, hmac]).toString('hex');
+}
+
+// Expirations below this are in seconds (older Miniflare, the KV API); as milliseconds they'd be in 1973
+const SECONDS_EXPIRATION_LIMIT = 1e11;
+
+/**
+ * Expiration as milliseconds since the epoch. Miniflare 3 stores milliseconds, but values written
+ * in seconds (the unit the KV API uses) are recognised by their size.
+ */
+export function getExpirationTime(expiration: number): number {
+  return expiration < SECONDS_EXPIRATION_LIMIT ? expiration * 1000 : expiration;
+}
+
+export function isExpired(entry: KVEntry, now: number = Date.now()): boolean {
+  return !!entry.expiration && getExpirationTime(entry.expiration) <= now;
+}
+
+export interface KVNamespaceChange {
+  workerPath: string;
+  namespaceId: string;
+  keys?: string[];
+}
+
 export class KVDataProvider {
   private dbCache: Map<string, sqlite3.Database> = new Map();
-  private namespaceDbMapping: Map<string, string> = new Map(); // namespace ID -> database path
+  private writableDbCache: Map<string, sqlite3.Database> = new Map();
+  private namespaceDbMapping: Map<string, NamespaceResolution> = new Map(); // namespace directory -> database
+  private statePaths: Map<string, string> = new Map(); // worker path -> resolved state directory
+  private _onDidChangeNamespace = new vscode.EventEmitter<KVNamespaceChange>();
+  readonly onDidChangeNamespace = this._onDidChangeNamespace.event;
 
   async getKVData(workerPath: string, namespaceId: string): Promise<KVData> {
     console.log(`[KVDataProvider] Getting KV data for worker: ${workerPath}, namespace: ${namespaceId}`);
-    const kvPath = path.join(workerPath, '.wrangler', 'state', 'v3', 'kv');
+    const kvPath = this.getKVPath(workerPath);
     console.log(`[KVDataProvider] KV path: ${kvPath}`);
     
     const dbPath = await this.findDatabaseForNamespace(kvPath, namespaceId);
@@ -41,8 +120,16 @@ export class KVDataProvider {
   }
 
   async getValue(workerPath: string, namespaceId: string, key: string): Promise<string | null> {
+    const bytes = await this.getValueBytes(workerPath, namespaceId, key);
+    return bytes ? Buffer.from(bytes).toString('utf-8') : null;
+  }
+
+  /**
+   * The stored bytes of a value, unchanged. Use this for values that may not be text.
+   */
+  async getValueBytes(workerPath: string, namespaceId: string, key: string): Promise<Uint8Array | null> {
     console.log(`[KVDataProvider] Getting value for key: ${key} in namespace: ${namespaceId}`);
-    const kvPath = path.join(workerPath, '.wrangler', 'state', 'v3', 'kv');
+    const kvPath = this.getKVPath(workerPath);
     const dbPath = await this.findDatabaseForNamespace(kvPath, namespaceId);
     
     if (!dbPath) {
@@ -58,13 +145,48 @@ export class KVDataProvider {
     }
 
     console.log(`[KVDataProvider] Found blob ID: ${blobId} for key: ${key}`);
+    return this.readBlobBytes(workerPath, namespaceId, blobId);
+  }
+
+  /**
+   * The first `length` bytes of a value and its full size, without reading the rest of it.
+   */
+  async getValuePrefix(
+    workerPath: string,
+    namespaceId: string,
+    key: string,
+    length: number
+  ): Promise<{ bytes: Uint8Array; size: number } | null> {
+    const dbPath = await this.findDatabaseForNamespace(this.getKVPath(workerPath), namespaceId);
+    const blobId = dbPath ? await this.getBlobId(dbPath, key) : null;
+    if (!blobId) {
+      return null;
+    }
+
+    const blobPath = path.join(this.getKVPath(workerPath), namespaceId, 'blobs', blobId);
+    let file: fs.FileHandle | undefined;
+    try {
+      file = await fs.open(blobPath, 'r');
+      const size = (await file.stat()).size;
+      const buffer = Buffer.alloc(Math.min(length, size));
+      const { bytesRead } = await file.read(buffer, 0, buffer.byteLength, 0);
+      return { bytes: buffer.subarray(0, bytesRead), size };
+    } catch (error) {
+      console.error(`[KVDataProvider] Error reading blob file ${blobPath}:`, error);
+      return null;
+    } finally {
+      await file?.close();
+    }
+  }
+
+  async readBlobBytes(workerPath: string, namespaceId: string, blobId: string): Promise<Uint8Array | null> {
     // Read the blob file
-    const blobPath = path.join(kvPath, namespaceId, 'blobs', blobId);
+    const blobPath = path.join(this.getKVPath(workerPath), namespaceId, 'blobs', blobId);
     console.log(`[KVDataProvider] Reading blob from: ${blobPath}`);
     
     try {
-      const content = await fs.readFile(blobPath, 'utf-8');
-      console.log(`[KVDataProvider] ✅ Successfully read ${content.length} characters from blob`);
+      const content = await fs.readFile(blobPath);
+      console.log(`[KVDataProvider] ✅ Successfully read ${content.byteLength} bytes from blob`);
       return content;
     } catch (error) {
       console.error(`[KVDataProvider] ❌ Error reading blob file ${blobPath}:`, error);
@@ -72,30 +194,496 @@ export class KVDataProvider {
     }
   }
 
+  /**
+   * Lists one page of entries in key order, starting after `cursor` (keyset paging, so
+   * deep pages cost the same as the first one).
+   */
+  async listEntries(workerPath: string, namespaceId: string, limit: number, cursor?: string): Promise<KVPage> {
+    const dbPath = await this.findDatabaseForNamespace(this.getKVPath(workerPath), namespaceId);
+    if (!dbPath) {
+      return { entries: [] };
+    }
+
+    const rows = await this.queryEntries(dbPath, { after: cursor, limit: limit + 1 });
+    if (rows.length > limit) {
+      const entries = rows.slice(0, limit);
+      return { entries, cursor: entries[entries.length - 1].key };
+    }
+    return { entries: rows };
+  }
+
+  /**
+   * Every entry in a database, whether or not a namespace resolves to it (an orphaned one, say).
+   */
+  async getDatabaseEntries(dbPath: string): Promise<KVEntry[]> {
+    return this.queryEntries(dbPath);
+  }
+
+  async countEntries(workerPath: string, namespaceId: string): Promise<number | null> {
+    const dbPath = await this.findDatabaseForNamespace(this.getKVPath(workerPath), namespaceId);
+    if (!dbPath) {
+      return null;
+    }
+    return this.getEntryCount(dbPath);
+  }
+
+  async getEntry(workerPath: string, namespaceId: string, key: string): Promise<KVEntry | null> {
+    const dbPath = await this.findDatabaseForNamespace(this.getKVPath(workerPath), namespaceId);
+    if (!dbPath) {
+      return null;
+    }
+    return this.queryEntry(this.getDatabase(dbPath), key);
+  }
+
+  /**
+   * Writes a value the same way Miniflare does: the bytes go into a fresh blob under
+   * `<namespace>/blobs`, the `_mf_entries` row is pointed at it, and only then is the
+   * previous blob removed. Without `options` the entry keeps its current expiration and metadata.
+   */
+  async putValue(
+    workerPath: string,
+    namespaceId: string,
+    key: string,
+    value: string | Uint8Array,
+    options?: KVPutOptions
+  ): Promise<void> {
+    console.log(`[KVDataProvider] Putting value for key: ${key} in namespace: ${namespaceId}`);
+    const kvPath = this.getKVPath(workerPath);
+    const db = await this.getWritableDatabaseForNamespace(kvPath, namespaceId);
+    const existing = await this.queryEntry(db, key);
+    const expiration = options ? options.expiration : existing?.expiration;
+    const metadata = options ? options.metadata : existing?.metadata;
+
+    const blobsPath = path.join(kvPath, namespaceId, 'blobs');
+    const blobId = this.generateBlobId();
+    await fs.mkdir(blobsPath, { recursive: true });
+    await fs.writeFile(path.join(blobsPath, blobId), value);
+
+    try {
+      await this.run(db,
+        'INSERT OR REPLACE INTO _mf_entries (key, blob_id, expiration, metadata) VALUES (?, ?, ?, ?)',
+        [key, blobId, expiration ?? null, metadata ?? null]);
+    } catch (error) {
+      // The row was never updated, so the new blob is unreferenced
+      await fs.rm(path.join(blobsPath, blobId), { force: true });
+      throw error;
+    }
+
+    if (existing) {
+      await this.removeOrphanedBlob(db, blobsPath, existing.blobId);
+    }
+
+    console.log(`[KVDataProvider] ✅ Wrote ${key} to blob ${blobId}`);
+    this._onDidChangeNamespace.fire({ workerPath, namespaceId, keys: [key] });
+  }
+
+  /**
+   * Writes many values at once: blobs first, then every row in a single transaction, so a failed
+   * import leaves the namespace as it was. With `replaceAll`, keys not in `values` are deleted;
+   * `deleteKeys` deletes just the listed keys in the same transaction.
+   * Fires one change event for the whole namespace.
+   */
+  async putValues(
+    workerPath: string,
+    namespaceId: string,
+    values: KVBulkValue[],
+    options: { replaceAll?: boolean; deleteKeys?: string[]; onProgress?: (written: number) => void } = {}
+  ): Promise<void> {
+    console.log(`[KVDataProvider] Putting ${values.length} values in namespace: ${namespaceId}`);
+    const kvPath = this.getKVPath(workerPath);
+    const db = await this.getWritableDatabaseForNamespace(kvPath, namespaceId);
+    const blobsPath = path.join(kvPath, namespaceId, 'blobs');
+    await fs.mkdir(blobsPath, { recursive: true });
+
+    const rows: Array<[string, string, number | null, string | null]> = [];
+    try {
+      for (const { key, value, options: putOptions } of values) {
+        const blobId = this.generateBlobId();
+        await fs.writeFile(path.join(blobsPath, blobId), value);
+        rows.push([key, blobId, putOptions?.expiration ?? null, putOptions?.metadata ?? null]);
+        options.onProgress?.(rows.length);
+      }
+    } catch (error) {
+      await Promise.all(rows.map(([, blobId]) => fs.rm(path.join(blobsPath, blobId), { force: true })));
+      throw error;
+    }
+
+    const previous = await new Promise<Array<{ key: string; blobId: string }>>((resolve, reject) => {
+      db.all('SELECT key, blob_id as blobId FROM _mf_entries', [],
+        (err: Error | null, result: Array<{ key: string; blobId: string }>) => (err ? reject(err) : resolve(result)));
+    });
+    const written = new Set(values.map(value => value.key));
+    const deleted = new Set(options.deleteKeys ?? []);
+
+    try {
+      await this.transaction(db, async () => {
+        for (const { key } of previous) {
+          if (!written.has(key) && (options.replaceAll || deleted.has(key))) {
+            await this.run(db, 'DELETE FROM _mf_entries WHERE key = ?', [key]);
+          }
+        }
+        for (const row of rows) {
+          await this.run(db,
+            'INSERT OR REPLACE INTO _mf_entries (key, blob_id, expiration, metadata) VALUES (?, ?, ?, ?)', row);
+        }
+      });
+    } catch (error) {
+      // Nothing points at the new blobs
+      await Promise.all(rows.map(([, blobId]) => fs.rm(path.join(blobsPath, blobId), { force: true })));
+      throw error;
+    }
+
+    // Blobs of replaced or deleted entries
+    for (const { key, blobId } of previous) {
+      if (written.has(key) || deleted.has(key) || options.replaceAll) {
+        await this.removeOrphanedBlob(db, blobsPath, blobId);
+      }
+    }
+
+    console.log(`[KVDataProvider] ✅ Wrote ${values.length} values to ${namespaceId}`);
+    this._onDidChangeNamespace.fire({ workerPath, namespaceId });
+  }
+
+  /**
+   * Replaces an entry's metadata (serialised JSON, or null to remove it) without touching its value.
+   */
+  async setMetadata(workerPath: string, namespaceId: string, key: string, metadata: string | null): Promise<void> {
+    console.log(`[KVDataProvider] Setting metadata for key: ${key} in namespace: ${namespaceId}`);
+    const db = await this.getWritableDatabaseForNamespace(this.getKVPath(workerPath), namespaceId);
+
+    if (!(await this.queryEntry(db, key))) {
+      throw new Error(`Key ${key} does not exist`);
+    }
+    await this.run(db, 'UPDATE _mf_entries SET metadata = ? WHERE key = ?', [metadata, key]);
+
+    console.log(`[KVDataProvider] ✅ Updated metadata for ${key}`);
+    this._onDidChangeNamespace.fire({ workerPath, namespaceId, keys: [key] });
+  }
+
+  /**
+   * Sets when an entry expires (milliseconds since the epoch, as Miniflare stores it), or removes
+   * the expiration when `expiration` is null.
+   */
+  async setExpiration(workerPath: string, namespaceId: string, key: string, expiration: number | null): Promise<void> {
+    console.log(`[KVDataProvider] Setting expiration for key: ${key} in namespace: ${namespaceId}`);
+    const db = await this.getWritableDatabaseForNamespace(this.getKVPath(workerPath), namespaceId);
+
+    if (!(await this.queryEntry(db, key))) {
+      throw new Error(`Key ${key} does not exist`);
+    }
+    await this.run(db, 'UPDATE _mf_entries SET expiration = ? WHERE key = ?', [expiration, key]);
+
+    console.log(`[KVDataProvider] ✅ Updated expiration for ${key}`);
+    this._onDidChangeNamespace.fire({ workerPath, namespaceId, keys: [key] });
+  }
+
+  async deleteKey(workerPath: string, namespaceId: string, key: string): Promise<void> {
+    console.log(`[KVDataProvider] Deleting key: ${key} in namespace: ${namespaceId}`);
+    const kvPath = this.getKVPath(workerPath);
+    const db = await this.getWritableDatabaseForNamespace(kvPath, namespaceId);
+
+    const existing = await this.queryEntry(db, key);
+    if (!existing) {
+      throw new Error(`Key ${key} does not exist`);
+    }
+
+    await this.run(db, 'DELETE FROM _mf_entries WHERE key = ?', [key]);
+    await this.removeOrphanedBlob(db, path.join(kvPath, namespaceId, 'blobs'), existing.blobId);
+
+    console.log(`[KVDataProvider] ✅ Deleted ${key}`);
+    this._onDidChangeNamespace.fire({ workerPath, namespaceId, keys: [key] });
+  }
+
+  /**
+   * Moves an entry to a new key without copying its blob. When `overwrite` is set, an
+   * existing entry at `newKey` is replaced and its blob removed.
+   */
+  async renameKey(
+    workerPath: string,
+    namespaceId: string,
+    oldKey: string,
+    newKey: string,
+    overwrite: boolean = false
+  ): Promise<void> {
+    console.log(`[KVDataProvider] Renaming key: ${oldKey} -> ${newKey} in namespace: ${namespaceId}`);
+    const kvPath = this.getKVPath(workerPath);
+    const db = await this.getWritableDatabaseForNamespace(kvPath, namespaceId);
+
+    if (!(await this.queryEntry(db, oldKey))) {
+      throw new Error(`Key ${oldKey} does not exist`);
+    }
+    const target = await this.queryEntry(db, newKey);
+    if (target && !overwrite) {
+      throw new Error(`Key ${newKey} already exists`);
+    }
+
+    await this.transaction(db, async () => {
+      if (target) {
+        await this.run(db, 'DELETE FROM _mf_entries WHERE key = ?', [newKey]);
+      }
+      await this.run(db, 'UPDATE _mf_entries SET key = ? WHERE key = ?', [newKey, oldKey]);
+    });
+
+    if (target) {
+      await this.removeOrphanedBlob(db, path.join(kvPath, namespaceId, 'blobs'), target.blobId);
+    }
+
+    console.log(`[KVDataProvider] ✅ Renamed ${oldKey} to ${newKey}`);
+    this._onDidChangeNamespace.fire({ workerPath, namespaceId, keys: [oldKey, newKey] });
+  }
+
+  private async getWritableDatabaseForNamespace(kvPath: string, namespaceId: string): Promise<sqlite3.Database> {
+    const dbPath = await this.findDatabaseForNamespace(kvPath, namespaceId);
+    if (!dbPath) {
+      throw new Error(`No local database found for namespace ${namespaceId}. Run the worker with wrangler dev first.`);
+    }
+    return this.getWritableDatabase(dbPath);
+  }
+
+  /**
+   * Called when local state changed outside the extension (e.g. a worker running under
+   * `wrangler dev`), so listeners refresh the same way they do after our own writes.
+   */
+  notifyExternalChange(change: KVNamespaceChange): void {
+    this._onDidChangeNamespace.fire(change);
+  }
+
+  /**
+   * Reverse lookup for a Miniflare SQLite file (or its -wal/-shm companions) resolved earlier.
+   */
+  getNamespaceForDatabase(dbPath: string, candidates: string[] = []): string | undefined {
+    const normalized = dbPath.replace(/-(wal|shm)$/, '');
+    for (const [namespacePath, resolution] of this.namespaceDbMapping) {
+      if (resolution.dbPath === normalized) {
+        return path.basename(namespacePath);
+      }
+    }
+    // Not resolved yet, but the file name tells us which namespace it belongs to
+    return candidates.find(namespaceId => this.getDerivedDatabaseName(namespaceId) === path.basename(normalized));
+  }
+
+  async getNamespaceResolution(workerPath: string, namespaceId: string): Promise<NamespaceResolution | null> {
+    return this.resolveNamespace(this.getKVPath(workerPath), namespaceId);
+  }
+
+  /**
+   * Lists what a worker's kv state directory holds, whether or not any binding refers to it.
+   * `knownIds` are namespace IDs that may have a database but no directory yet.
+   */
+  async scanLocalState(workerPath: string, knownIds: string[] = []): Promise<LocalKVState> {
+    const kvPath = this.getKVPath(workerPath);
+    const entries = await fs.readdir(kvPath, { withFileTypes: true }).catch(() => []);
+    const namespaceIds = entries
+      .filter(entry => entry.isDirectory() && entry.name !== KV_NAMESPACE_OBJECT_DIR)
+      .map(entry => entry.name)
+      .sort();
+
+    const claimed = new Set<string>();
+    for (const namespaceId of new Set([...namespaceIds, ...knownIds])) {
+      const dbPath = await this.findDatabaseForNamespace(kvPath, namespaceId);
+      claimed.add(dbPath ?? path.join(kvPath, KV_NAMESPACE_OBJECT_DIR, this.getDerivedDatabaseName(namespaceId)));
+    }
+
+    const miniflareDir = path.join(kvPath, KV_NAMESPACE_OBJECT_DIR);
+    // Missing until a namespace has been written to
+    const files = await fs.readdir(miniflareDir).catch((): string[] => []);
+    const orphanDatabases = files
+      .filter(file => file.endsWith('.sqlite'))
+      .map(file => path.join(miniflareDir, file))
+      .filter(dbPath => !claimed.has(dbPath))
+      .sort();
+
+    return { namespaceIds, orphanDatabases };
+  }
+
+  /**
+   * Deletes a namespace from local state: its directory (blobs and any legacy database) and
+   * its Durable Object database.
+   */
+  async purgeNamespace(workerPath: string, namespaceId: string): Promise<void> {
+    const kvPath = this.getKVPath(workerPath);
+    const dbPath = await this.findDatabaseForNamespace(kvPath, namespaceId);
+    this.namespaceDbMapping.delete(path.join(kvPath, namespaceId));
+    if (dbPath) {
+      await this.purgeDatabase(dbPath);
+    }
+    await fs.rm(path.join(kvPath, namespaceId), { recursive: true, force: true });
+    console.log(`[KVDataProvider] Purged namespace ${namespaceId} from ${kvPath}`);
+    this._onDidChangeNamespace.fire({ workerPath, namespaceId });
+  }
+
+  /**
+   * Deletes a Miniflare database file along with its -wal/-shm companions.
+   */
+  async purgeDatabase(dbPath: string): Promise<void> {
+    this.closeDatabase(dbPath);
+    for (const [namespacePath, resolution] of this.namespaceDbMapping) {
+      if (resolution.dbPath === dbPath) {
+        this.namespaceDbMapping.delete(namespacePath);
+      }
+    }
+    for (const file of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+      await fs.rm(file, { force: true });
+    }
+  }
+
+  /**
+   * Moves a namespace's local state to another namespace ID and returns how many keys moved.
+   * When the target has no database yet the files are renamed; otherwise the unexpired entries
+   * are copied over (replacing all of the target's keys with `replaceAll`) and the source is purged.
+   */
+  async moveNamespace(
+    workerPath: string,
+    fromId: string,
+    toId: string,
+    options: { replaceAll?: boolean } = {}
+  ): Promise<number> {
+    const kvPath = this.getKVPath(workerPath);
+    const resolution = await this.resolveNamespace(kvPath, fromId);
+    if (!resolution) {
+      throw new Error(`No local database found for namespace ${fromId}.`);
+    }
+    const sourceDbPath = resolution.dbPath;
+
+    if (!(await this.findDatabaseForNamespace(kvPath, toId))) {
+      const count = await this.getEntryCount(sourceDbPath);
+      this.closeDatabase(sourceDbPath);
+      this.namespaceDbMapping.delete(path.join(kvPath, fromId));
+
+      // Blobs left without a database are unreachable, so a stale target directory can go
+      const targetPath = path.join(kvPath, toId);
+      await fs.rm(targetPath, { recursive: true, force: true });
+      await fs.rename(path.join(kvPath, fromId), targetPath);
+      // A legacy database moved with its directory; workerd finds the others by the derived name
+      if (resolution.method !== 'legacy') {
+        const targetDbPath = path.join(kvPath, KV_NAMESPACE_OBJECT_DIR, this.getDerivedDatabaseName(toId));
+        for (const suffix of ['', '-wal', '-shm']) {
+          await fs.rename(`${sourceDbPath}${suffix}`, `${targetDbPath}${suffix}`).catch(error => {
+            if (suffix === '' || error.code !== 'ENOENT') {
+              throw error;
+            }
+          });
+        }
+      }
+      console.log(`[KVDataProvider] Moved namespace ${fromId} to ${toId}`);
+      this._onDidChangeNamespace.fire({ workerPath, namespaceId: fromId });
+      this._onDidChangeNamespace.fire({ workerPath, namespaceId: toId });
+      return count;
+    }
+
+    const now = Date.now();
+    const values: KVBulkValue[] = [];
+    for (const entry of (await this.getKVData(workerPath, fromId)).entries) {
+      const value = isExpired(entry, now) ? null : await this.readBlobBytes(workerPath, fromId, entry.blobId);
+      if (value) {
+        values.push({ key: entry.key, value, options: { expiration: entry.expiration, metadata: entry.metadata } });
+      }
+    }
+    await this.putValues(workerPath, toId, values, { replaceAll: options.replaceAll });
+    await this.purgeNamespace(workerPath, fromId);
+    return values.length;
+  }
+
+  private getDerivedDatabaseName(namespaceId: string): string {
+    return `${durableObjectIdFromName(KV_NAMESPACE_OBJECT_DIR, namespaceId)}.sqlite`;
+  }
+
+  /**
+   * Records where each worker persists its state, as resolved by WorkerDiscovery.
+   */
+  setWorkers(workers: Array<{ path: string; statePath: string }>): void {
+    this.statePaths.clear();
+    for (const worker of workers) {
+      this.statePaths.set(worker.path, worker.statePath);
+    }
+  }
+
+  getKVPath(workerPath: string): string {
+    const statePath = this.statePaths.get(workerPath) ?? path.join(workerPath, '.wrangler', 'state', 'v3');
+    return path.join(statePath, 'kv');
+  }
+
+  private generateBlobId(): string {
+    // Miniflare blob IDs are 32 random bytes followed by a big-endian millisecond timestamp
+    const id = Buffer.alloc(40);
+    crypto.randomFillSync(id, 0, 32);
+    id.writeBigInt64BE(BigInt(Date.now()), 32);
+    return id.toString('hex');
+  }
+
+  private async removeOrphanedBlob(db: sqlite3.Database, blobsPath: string, blobId: string): Promise<void> {
+    try {
+      const references = await new Promise<number>((resolve, reject) => {
+        db.get('SELECT COUNT(*) as count FROM _mf_entries WHERE blob_id = ?', [blobId],
+          (err: Error | null, row: { count: number } | undefined) => {
+            if (err) {
+              reject(err);
+            } else {
+              resolve(row?.count || 0);
+            }
+          });
+      });
+      if (references > 0) {
+        return;
+      }
+
+      await fs.rm(path.join(blobsPath, blobId), { force: true });
+    } catch (error) {
+      console.error(`[KVDataProvider] Error removing blob ${blobId}:`, error);
+    }
+  }
+
   private async findDatabaseForNamespace(kvPath: string, namespaceId: string): Promise<string | null> {
-    // Check cache first
-    if (this.namespaceDbMapping.has(namespaceId)) {
-      const cachedPath = this.namespaceDbMapping.get(namespaceId)!;
+    return (await this.resolveNamespace(kvPath, namespaceId))?.dbPath ?? null;
+  }
+
+  // Which database holds the namespace and how it was found, remembered until the database goes away
+  private async resolveNamespace(kvPath: string, namespaceId: string): Promise<NamespaceResolution | null> {
+    // Check cache first (keyed by namespace directory, as workers may persist to different roots)
+    const mappingKey = path.join(kvPath, namespaceId);
+    const cached = this.namespaceDbMapping.get(mappingKey);
+    if (cached) {
+      const cachedPath = cached.dbPath;
       // Verify cached database still exists
       try {
         await fs.access(cachedPath);
         console.log(`[KVDataProvider] Using cached database for namespace ${namespaceId}: ${cachedPath}`);
-        return cachedPath;
+        return cached;
       } catch {
         console.log(`[KVDataProvider] Cached database no longer exists, clearing cache for ${namespaceId}`);
-        this.namespaceDbMapping.delete(namespaceId);
+        this.namespaceDbMapping.delete(mappingKey);
         // Also close and remove from db cache if present
-        if (this.dbCache.has(cachedPath)) {
-          try {
-            this.dbCache.get(cachedPath)!.close();
-          } catch {}
-          this.dbCache.delete(cachedPath);
-        }
+        this.closeDatabase(cachedPath);
       }
     }
 
-    const miniflareDir = path.join(kvPath, 'miniflare-KVNamespaceObject');
-    console.log(`[KVDataProvider] Looking for database in: ${miniflareDir}`);
+    const miniflareDir = path.join(kvPath, KV_NAMESPACE_OBJECT_DIR);
+
+    // Miniflare keeps each namespace in the Durable Object named after the namespace ID
+    const derivedDbPath = path.join(miniflareDir, this.getDerivedDatabaseName(namespaceId));
+    try {
+      await fs.access(derivedDbPath);
+      console.log(`[KVDataProvider] ✅ Derived database for namespace ${namespaceId}: ${derivedDbPath}`);
+      const resolution: NamespaceResolution = { dbPath: derivedDbPath, method: 'derived' };
+      this.namespaceDbMapping.set(mappingKey, resolution);
+      return resolution;
+    } catch {
+      // Not created yet, or a layout we don't know how to derive
+    }
+
+    // Older Miniflare 3 releases kept one db.sqlite inside each namespace directory
+    const legacyDbPath = path.join(kvPath, namespaceId, 'db.sqlite');
+    try {
+      await fs.access(legacyDbPath);
+      console.log(`[KVDataProvider] ✅ Found legacy database for namespace ${namespaceId}: ${legacyDbPath}`);
+      const resolution: NamespaceResolution = { dbPath: legacyDbPath, method: 'legacy' };
+      this.namespaceDbMapping.set(mappingKey, resolution);
+      return resolution;
+    } catch {
+      // Fall back to matching blobs below
+    }
+
+    console.log(`[KVDataProvider] Falling back to blob sampling in: ${miniflareDir}`);
     
     // First check if the miniflare directory exists
     try {
@@ -171,8 +759,9 @@ export class KVDataProvider {
           if (matchCount === checkedCount && matchCount > 0) {
             console.log(`[KVDataProvider] ✅ Found matching database for namespace ${namespaceId}: ${file}`);
             // Cache the mapping
-            this.namespaceDbMapping.set(namespaceId, dbPath);
-            return dbPath;
+            const resolution: NamespaceResolution = { dbPath, method: 'sampled' };
+            this.namespaceDbMapping.set(mappingKey, resolution);
+            return resolution;
           }
         } catch (error) {
           console.error(`[KVDataProvider] Error checking database ${dbPath}:`, error);
@@ -186,6 +775,17 @@ export class KVDataProvider {
     return null;
   }
 
+  private closeDatabase(dbPath: string): void {
+    for (const cache of [this.dbCache, this.writableDbCache]) {
+      if (cache.has(dbPath)) {
+        try {
+          cache.get(dbPath)!.close();
+        } catch {}
+        cache.delete(dbPath);
+      }
+    }
+  }
+
   private getDatabase(dbPath: string): sqlite3.Database {
     if (this.dbCache.has(dbPath)) {
       return this.dbCache.get(dbPath)!;
@@ -196,10 +796,71 @@ export class KVDataProvider {
     return db;
   }
 
-  private queryEntries(dbPath: string): Promise<KVEntry[]> {
+  private getWritableDatabase(dbPath: string): sqlite3.Database {
+    if (this.writableDbCache.has(dbPath)) {
+      return this.writableDbCache.get(dbPath)!;
+    }
+
+    const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READWRITE);
+    // wrangler dev may hold the database while we write
+    db.configure('busyTimeout', 5000);
+    this.writableDbCache.set(dbPath, db);
+    return db;
+  }
+
+  private run(db: sqlite3.Database, sql: string, params: any[] = []): Promise<void> {
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, (err: Error | null) => {
+        if (err) {
+          console.error(`[KVDataProvider] Error running statement:`, err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private async transaction(db: sqlite3.Database, body: () => Promise<void>): Promise<void> {
+    await this.run(db, 'BEGIN IMMEDIATE');
+    try {
+      await body();
+      await this.run(db, 'COMMIT');
+    } catch (error) {
+      await this.run(db, 'ROLLBACK').catch(() => {});
+      throw error;
+    }
+  }
+
+  private queryEntry(db: sqlite3.Database, key: string): Promise<KVEntry | null> {
+    return new Promise((resolve, reject) => {
+      db.get('SELECT key, blob_id as blobId, expiration, metadata FROM _mf_entries WHERE key = ?', [key],
+        (err: Error | null, row: KVEntry | undefined) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(row || null);
+          }
+        });
+    });
+  }
+
+  private queryEntries(dbPath: string, page?: { after?: string; limit: number }): Promise<KVEntry[]> {
+    let sql = 'SELECT key, blob_id as blobId, expiration, metadata FROM _mf_entries';
+    const params: any[] = [];
+    if (page?.after !== undefined) {
+      sql += ' WHERE key > ?';
+      params.push(page.after);
+    }
+    sql += ' ORDER BY key';
+    if (page) {
+      sql += ' LIMIT ?';
+      params.push(page.limit);
+    }
+
     return new Promise((resolve, reject) => {
       const db = this.getDatabase(dbPath);
-      db.all('SELECT key, blob_id as blobId, expiration, metadata FROM _mf_entries ORDER BY key', 
+      db.all(sql, params,
         (err: Error | null, rows: KVEntry[]) => {
           if (err) {
             console.error(`[KVDataProvider] Error querying entries:`, err);
@@ -258,7 +919,7 @@ export class KVDataProvider {
 
   dispose() {
     // Close all database connections
-    for (const db of this.dbCache.values()) {
+    for (const db of [...this.dbCache.values(), ...this.writableDbCache.values()]) {
       try {
         db.close();
       } catch (error) {
@@ -266,6 +927,8 @@ export class KVDataProvider {
       }
     }
     this.dbCache.clear();
+    this.writableDbCache.clear();
     this.namespaceDbMapping.clear();
+    this._onDidChangeNamespace.dispose();
   }
 }
\ No newline at end of file
@@ -1,69 +1,325 @@
 import * as vscode from 'vscode';
-import { KVDataProvider } from './KVDataProvider';
+import { KVDataProvider, MAX_METADATA_SIZE } from './KVDataProvider';
+import { decodeText } from './ContentSniffer';
+import { compactJson, formatJson } from './JsonFormatter';
 
-export class KVDocumentProvider implements vscode.TextDocumentContentProvider {
+interface KVUriParts {
+  workerPath: string;
+  namespaceId: string;
+  key?: string;
+  // The entry's metadata rather than its value (`?metadata` on the key's URI)
+  metadata: boolean;
+}
+
+interface CachedEntry {
+  content: Uint8Array;
+  // The stored value is JSON on a single line, so saving compacts the pretty-printed text again
+  compact: boolean;
+  mtime: number;
+}
+
+export class KVDocumentProvider implements vscode.FileSystemProvider {
   private kvDataProvider: KVDataProvider;
-  private contentCache = new Map<string, string>();
-  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
-  readonly onDidChange = this._onDidChange.event;
+  private contentCache = new Map<string, CachedEntry>();
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this._onDidChangeFile.event;
+  private disposables: vscode.Disposable[] = [];
 
   constructor(kvDataProvider: KVDataProvider) {
     this.kvDataProvider = kvDataProvider;
+
+    // Keep open editors in sync with writes made through the data provider
+    this.disposables.push(
+      kvDataProvider.onDidChangeNamespace(change => {
+        for (const cacheKey of [...this.contentCache.keys()]) {
+          const uri = vscode.Uri.parse(cacheKey);
+          const parts = parseKVUri(uri);
+          if (
+            parts.workerPath === change.workerPath &&
+            parts.namespaceId === change.namespaceId &&
+            (!change.keys || (parts.key !== undefined && change.keys.includes(parts.key)))
+          ) {
+            this.refresh(uri);
+          }
+        }
+      })
+    );
+  }
+
+  watch(): vscode.Disposable {
+    // Changes are pushed through refresh() and onDidChangeNamespace
+    return new vscode.Disposable(() => {});
   }
 
-  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
-    // URI format: cloudflare-kv://worker-path/namespace-id/key
-    // Authority contains the worker path, path contains namespace and key
-    const workerPath = decodeURIComponent(uri.authority);
-    const pathParts = uri.path.split('/').filter(p => p);
-    
-    if (pathParts.length < 2) {
-      return '// Invalid KV URI';
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const { key } = parseKVUri(uri);
+
+    if (key === undefined) {
+      return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
     }
 
-    const namespaceId = pathParts[0];
-    const key = decodeURIComponent(pathParts.slice(1).join('/'));
+    const entry = await this.loadEntry(uri);
+    return {
+      type: vscode.FileType.File,
+      ctime: 0,
+      mtime: entry.mtime,
+      size: entry.content.byteLength
+    };
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const entry = await this.loadEntry(uri);
+    return entry.content;
+  }
+
+  async writeFile(
+    uri: vscode.Uri,
+    content: Uint8Array,
+    options: { create: boolean; overwrite: boolean }
+  ): Promise<void> {
+    const { workerPath, namespaceId, key, metadata } = parseKVUri(uri);
+
+    if (key === undefined) {
+      throw vscode.FileSystemError.FileIsADirectory(uri);
+    }
+
+    if (metadata) {
+      await this.writeMetadata(uri, workerPath, namespaceId, key, content);
+      return;
+    }
+
+    const exists = (await this.kvDataProvider.getEntry(workerPath, namespaceId, key)) !== null;
+    if (!exists && !options.create) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    if (exists && !options.overwrite) {
+      throw vscode.FileSystemError.FileExists(uri);
+    }
+
+    // Binary content (e.g. written by a custom editor or a file copy) is stored byte for byte
+    let value: string | Uint8Array = decodeText(content) ?? content;
+
+    // Values are shown pretty-printed; store JSON compactly again if that's how it was stored.
+    // Only whitespace changes, so numbers and escapes are written exactly as typed
+    const cached = this.contentCache.get(uri.toString());
+    if (typeof value === 'string' && cached?.compact) {
+      try {
+        value = compactJson(value);
+      } catch {
+        // Not JSON (anymore), store the text as-is
+      }
+    }
+
+    try {
+      await this.kvDataProvider.putValue(workerPath, namespaceId, key, value);
+    } catch (error) {
+      throw vscode.FileSystemError.Unavailable(
+        `Failed to save ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    this.refresh(uri);
+  }
+
+  private async writeMetadata(
+    uri: vscode.Uri,
+    workerPath: string,
+    namespaceId: string,
+    key: string,
+    content: Uint8Array
+  ): Promise<void> {
+    const text = new TextDecoder().decode(content).trim();
+
+    // An empty document (or `null`) removes the metadata
+    let metadata: string | null = null;
+    if (text) {
+      try {
+        metadata = JSON.parse(text) === null ? null : compactJson(text);
+      } catch (error) {
+        throw new vscode.FileSystemError(
+          `Metadata for ${key} must be valid JSON: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    const size = metadata ? Buffer.byteLength(metadata) : 0;
+    if (size > MAX_METADATA_SIZE) {
+      throw new vscode.FileSystemError(
+        `Metadata for ${key} is ${size} bytes, KV allows at most ${MAX_METADATA_SIZE}`
+      );
+    }
+
+    try {
+      await this.kvDataProvider.setMetadata(workerPath, namespaceId, key, metadata);
+    } catch (error) {
+      throw vscode.FileSystemError.Unavailable(
+        `Failed to save metadata for ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    this.refresh(uri);
+  }
+
+  async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    const { workerPath, namespaceId, key } = parseKVUri(uri);
+
+    if (key !== undefined) {
+      throw vscode.FileSystemError.FileNotADirectory(uri);
+    }
+
+    const data = await this.kvDataProvider.getKVData(workerPath, namespaceId);
+    return data.entries.map(entry => [encodeURIComponent(entry.key), vscode.FileType.File]);
+  }
 
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  async delete(uri: vscode.Uri): Promise<void> {
+    const { workerPath, namespaceId, key, metadata } = parseKVUri(uri);
+
+    if (key === undefined || metadata) {
+      throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    await this.kvDataProvider.deleteKey(workerPath, namespaceId, key);
+    this.contentCache.delete(uri.toString());
+    this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
+  }
+
+  async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+    const from = parseKVUri(oldUri);
+    const to = parseKVUri(newUri);
+
+    if (
+      from.key === undefined || to.key === undefined || from.metadata || to.metadata ||
+      from.workerPath !== to.workerPath || from.namespaceId !== to.namespaceId
+    ) {
+      // Keys can only move within their own namespace
+      throw vscode.FileSystemError.NoPermissions(oldUri);
+    }
+
+    if (!options.overwrite && (await this.kvDataProvider.getEntry(to.workerPath, to.namespaceId, to.key))) {
+      throw vscode.FileSystemError.FileExists(newUri);
+    }
+
+    await this.kvDataProvider.renameKey(from.workerPath, from.namespaceId, from.key, to.key, options.overwrite);
+    this.contentCache.delete(oldUri.toString());
+    this._onDidChangeFile.fire([
+      { type: vscode.FileChangeType.Deleted, uri: oldUri },
+      { type: vscode.FileChangeType.Created, uri: newUri }
+    ]);
+  }
+
+  private async loadEntry(uri: vscode.Uri): Promise<CachedEntry> {
     const cacheKey = uri.toString();
-    
+
     // Check cache first
     if (this.contentCache.has(cacheKey)) {
       return this.contentCache.get(cacheKey)!;
     }
 
-    try {
-      const content = await this.kvDataProvider.getValue(workerPath, namespaceId, key);
-      
-      if (!content) {
-        return '// KV entry not found';
-      }
+    const { workerPath, namespaceId, key, metadata } = parseKVUri(uri);
+    if (key === undefined) {
+      throw vscode.FileSystemError.FileIsADirectory(uri);
+    }
 
-      // Try to format as JSON if possible
-      try {
-        const parsed = JSON.parse(content);
-        const formatted = JSON.stringify(parsed, null, 2);
-        this.contentCache.set(cacheKey, formatted);
-        return formatted;
-      } catch {
-        // Not JSON, return as-is
-        this.contentCache.set(cacheKey, content);
-        return content;
-      }
+    if (metadata) {
+      return this.loadMetadata(uri, workerPath, namespaceId, key);
+    }
+
+    let bytes: Uint8Array | null;
+    try {
+      bytes = await this.kvDataProvider.getValueBytes(workerPath, namespaceId, key);
     } catch (error) {
       console.error('Error fetching KV content:', error);
-      return `// Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      throw vscode.FileSystemError.Unavailable(uri);
+    }
+
+    if (bytes === null) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+
+    // Binary values are served as-is so nothing reading them gets mangled text
+    const raw = decodeText(bytes);
+    if (raw === null) {
+      const entry: CachedEntry = { content: bytes, compact: false, mtime: Date.now() };
+      this.contentCache.set(cacheKey, entry);
+      return entry;
+    }
+
+    // Try to format as JSON if possible
+    let text = raw;
+    let json = false;
+    try {
+      text = formatJson(raw);
+      json = true;
+    } catch {
+      // Not JSON, return as-is
+    }
+
+    const entry: CachedEntry = {
+      content: new TextEncoder().encode(text),
+      compact: json && !raw.includes('\n'),
+      mtime: Date.now()
+    };
+    this.contentCache.set(cacheKey, entry);
+    return entry;
+  }
+
+  private async loadMetadata(uri: vscode.Uri, workerPath: string, namespaceId: string, key: string): Promise<CachedEntry> {
+    const entry = await this.kvDataProvider.getEntry(workerPath, namespaceId, key);
+    if (!entry) {
+      throw vscode.FileSystemError.FileNotFound(uri);
     }
+
+    // Entries without metadata open as an empty document that can be filled in
+    const raw = entry.metadata ?? '';
+    let text = raw;
+    try {
+      text = raw ? formatJson(raw) : '';
+    } catch {
+      // Not valid JSON, show what's stored
+    }
+
+    // Metadata is always stored compactly, whatever the stored text looked like
+    const cached: CachedEntry = {
+      content: new TextEncoder().encode(text),
+      compact: false,
+      mtime: Date.now()
+    };
+    this.contentCache.set(uri.toString(), cached);
+    return cached;
   }
 
   refresh(uri: vscode.Uri) {
     this.contentCache.delete(uri.toString());
-    this._onDidChange.fire(uri);
+    this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
   }
 
   dispose() {
     this.contentCache.clear();
-    this._onDidChange.dispose();
+    this._onDidChangeFile.dispose();
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+export function parseKVUri(uri: vscode.Uri): KVUriParts {
+  // URI format: cloudflare-kv://worker-path/namespace-id/key
+  // Authority contains the worker path, path contains namespace and key
+  const workerPath = decodeURIComponent(uri.authority);
+  const pathParts = uri.path.split('/').filter(p => p);
+
+  if (pathParts.length < 1) {
+    throw vscode.FileSystemError.FileNotFound(uri);
   }
+
+  return {
+    workerPath,
+    namespaceId: pathParts[0],
+    key: pathParts.length > 1 ? decodeURIComponent(pathParts.slice(1).join('/')) : undefined,
+    metadata: uri.query === 'metadata'
+  };
 }
 
 export function createKVUri(workerPath: string, namespaceId: string, key: string): vscode.Uri {
@@ -73,4 +329,8 @@ export function createKVUri(workerPath: string, namespaceId: string, key: string
     authority: encodeURIComponent(workerPath),
     path: `/${namespaceId}/${encodeURIComponent(key)}`
   });
-}
\ No newline at end of file
+}
+
+export function createKVMetadataUri(workerPath: string, namespaceId: string, key: string): vscode.Uri {
+  return createKVUri(workerPath, namespaceId, key).with({ query: 'metadata' });
+}
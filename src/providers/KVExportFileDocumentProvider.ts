@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import { readExportFile, getRecordBytes } from './KVNamespaceComparer';
+import { decodeText, formatByteSize } from './ContentSniffer';
+import { formatJson } from './JsonFormatter';
+
+export const EXPORT_FILE_SCHEME = 'cloudflare-kv-export';
+
+/**
+ * Read-only documents for single keys of an exported file, so they can be diffed against
+ * `cloudflare-kv` entries. Values are shown the way open entries are: JSON pretty-printed.
+ */
+export class KVExportFileDocumentProvider implements vscode.TextDocumentContentProvider {
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const { file, key } = JSON.parse(uri.query) as { file: string; key: string };
+    const record = (await readExportFile(file)).find(candidate => candidate.key === key);
+    if (!record) {
+      return `(${key} is not in ${file})`;
+    }
+
+    const bytes = getRecordBytes(record);
+    const text = decodeText(bytes);
+    if (text === null) {
+      return `(binary value, ${formatByteSize(bytes.byteLength)})`;
+    }
+    try {
+      return formatJson(text);
+    } catch {
+      return text;
+    }
+  }
+}
+
+export function createExportFileUri(file: string, key: string): vscode.Uri {
+  return vscode.Uri.from({ scheme: EXPORT_FILE_SCHEME, path: `/${key}`, query: JSON.stringify({ file, key }) });
+}
@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { KVDataProvider, KVEntry, MIN_TTL, getExpirationTime, isExpired } from './KVDataProvider';
+import { decodeText } from './ContentSniffer';
+import { WorkerProject, KVNamespace, getNamespaceLabel } from './WorkerDiscovery';
+import { KVTreeProvider, NamespaceItem, WorkerItem } from './KVTreeProvider';
+
+export type ExportFormat = 'json' | 'ndjson' | 'csv';
+
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string; detail: string; extension: string }> = [
+  {
+    format: 'json',
+    label: 'Bulk JSON',
+    detail: 'Array accepted by `wrangler kv bulk put`',
+    extension: 'json'
+  },
+  { format: 'ndjson', label: 'NDJSON', detail: 'One JSON object per line', extension: 'ndjson' },
+  { format: 'csv', label: 'CSV', detail: 'key, value, base64, expiration, metadata columns', extension: 'csv' }
+];
+
+export interface ExportSource {
+  workerPath: string;
+  namespaceId: string;
+  // Only these keys (e.g. search results); every key when omitted
+  keys?: Set<string>;
+}
+
+export interface ExportResult {
+  exported: number;
+  // Entries past their expiration; Workers can't read them and wrangler won't accept them
+  skippedExpired: number;
+  // Entries expiring within MIN_TTL seconds, an expiration wrangler and the import would reject
+  skippedExpiringSoon: number;
+}
+
+// One entry in the shape `wrangler kv bulk put` reads
+interface BulkRecord {
+  key: string;
+  value: string;
+  base64?: boolean;
+  expiration?: number;
+  metadata?: unknown;
+}
+
+const CSV_COLUMNS = ['key', 'value', 'base64', 'expiration', 'metadata'];
+
+/**
+ * Writes namespaces (or a selection of their keys) to disk. Binary values are base64-encoded and
+ * flagged, and expirations are written in seconds. Keys about to expire are left out with the
+ * expired ones, so bulk JSON exports can be fed straight back into `wrangler kv bulk put` or this
+ * extension's import.
+ */
+export class KVExporter {
+  constructor(private kvDataProvider: KVDataProvider) {}
+
+  async export(
+    source: ExportSource,
+    format: ExportFormat,
+    destination: string,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    token?: vscode.CancellationToken
+  ): Promise<ExportResult> {
+    const data = await this.kvDataProvider.getKVData(source.workerPath, source.namespaceId);
+    const now = Date.now();
+    const selected = data.entries.filter(entry => !source.keys || source.keys.has(entry.key));
+    const live = selected.filter(entry => !isExpired(entry, now));
+    const entries = live.filter(
+      entry => !entry.expiration || getExpirationTime(entry.expiration) >= now + MIN_TTL * 1000
+    );
+
+    const file = await fs.open(destination, 'w');
+    try {
+      if (format === 'json') {
+        await file.write('[\n');
+      } else if (format === 'csv') {
+        await file.write(CSV_COLUMNS.join(',') + '\r\n');
+      }
+
+      let exported = 0;
+      for (const entry of entries) {
+        if (token?.isCancellationRequested) {
+          throw new vscode.CancellationError();
+        }
+
+        const record = await this.toRecord(source, entry);
+        if (!record) {
+          continue;
+        }
+
+        if (format === 'json') {
+          await file.write(`${exported > 0 ? ',\n' : ''}  ${JSON.stringify(record)}`);
+        } else if (format === 'ndjson') {
+          await file.write(JSON.stringify(record) + '\n');
+        } else {
+          await file.write(toCsvRow(record) + '\r\n');
+        }
+        exported++;
+        progress?.report({ message: `${exported}/${entries.length}`, increment: 100 / entries.length });
+      }
+
+      if (format === 'json') {
+        await file.write(exported > 0 ? '\n]\n' : ']\n');
+      }
+
+      return {
+        exported,
+        skippedExpired: selected.length - live.length,
+        skippedExpiringSoon: live.length - entries.length
+      };
+    } finally {
+      await file.close();
+    }
+  }
+
+  private async toRecord(source: ExportSource, entry: KVEntry): Promise<BulkRecord | null> {
+    const bytes = await this.kvDataProvider.readBlobBytes(source.workerPath, source.namespaceId, entry.blobId);
+    if (!bytes) {
+      // Blob removed by a write that happened while exporting
+      return null;
+    }
+
+    const text = decodeText(bytes);
+    const record: BulkRecord = text !== null
+      ? { key: entry.key, value: text }
+      : { key: entry.key, value: Buffer.from(bytes).toString('base64'), base64: true };
+
+    if (entry.expiration) {
+      record.expiration = Math.floor(getExpirationTime(entry.expiration) / 1000);
+    }
+    if (entry.metadata) {
+      try {
+        record.metadata = JSON.parse(entry.metadata);
+      } catch {
+        record.metadata = entry.metadata;
+      }
+    }
+    return record;
+  }
+}
+
+function toCsvRow(record: BulkRecord): string {
+  return [
+    record.key,
+    record.value,
+    record.base64 ? 'true' : 'false',
+    record.expiration !== undefined ? String(record.expiration) : '',
+    record.metadata !== undefined ? JSON.stringify(record.metadata) : ''
+  ]
+    .map(escapeCsv)
+    .join(',');
+}
+
+function escapeCsv(field: string): string {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Export a namespace, every namespace of a worker, or the current search results.
+ */
+export function registerExportCommands(
+  context: vscode.ExtensionContext,
+  kvDataProvider: KVDataProvider,
+  treeProvider: KVTreeProvider
+): void {
+  const exporter = new KVExporter(kvDataProvider);
+  const exportNamespaces = async (
+    selections: Array<{ worker: WorkerProject; namespace: KVNamespace; keys?: Set<string> }>,
+    title: string
+  ) => {
+    if (selections.length === 0) {
+      vscode.window.showWarningMessage('Nothing to export');
+      return;
+    }
+
+    const choice = await vscode.window.showQuickPick(EXPORT_FORMATS, { title, placeHolder: 'Export format' });
+    if (!choice) return;
+
+    const fileName = (selection: { worker: WorkerProject; namespace: KVNamespace }) =>
+      `${selection.worker.name}-${getNamespaceLabel(selection.namespace)}.${choice.extension}`.replace(/[^\w.-]+/g, '_');
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+
+    // A single namespace goes to a file of your choosing, several go to one file each in a folder
+    let destinations: string[];
+    if (selections.length === 1) {
+      const file = await vscode.window.showSaveDialog({
+        title,
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName(selections[0])) : undefined,
+        filters: { [choice.label]: [choice.extension] },
+        saveLabel: 'Export'
+      });
+      if (!file) return;
+      destinations = [file.fsPath];
+    } else {
+      const folder = await vscode.window.showOpenDialog({
+        title: `${title} (one file per namespace)`,
+        defaultUri: workspaceFolder,
+        canSelectFiles: false,
+        canSelectFolders: true,
+        openLabel: 'Export Here'
+      });
+      if (!folder) return;
+      destinations = selections.map(selection => path.join(folder[0].fsPath, fileName(selection)));
+    }
+
+    try {
+      const totals = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+        async (progress, token) => {
+          const totals = { exported: 0, skippedExpired: 0, skippedExpiringSoon: 0 };
+          for (const [index, selection] of selections.entries()) {
+            // Each namespace gets an equal share of the progress bar
+            const scaled = {
+              report: ({ message, increment }: { message?: string; increment?: number }) => progress.report({
+                message: `${selection.namespace.binding}: ${message ?? ''}`,
+                increment: increment !== undefined ? increment / selections.length : undefined
+              })
+            };
+            const result = await exporter.export(
+              { workerPath: selection.worker.path, namespaceId: selection.namespace.id, keys: selection.keys },
+              choice.format,
+              destinations[index],
+              scaled,
+              token
+            );
+            totals.exported += result.exported;
+            totals.skippedExpired += result.skippedExpired;
+            totals.skippedExpiringSoon += result.skippedExpiringSoon;
+          }
+          return totals;
+        }
+      );
+
+      const skippedParts = [
+        ...(totals.skippedExpired > 0 ? [`${totals.skippedExpired} expired keys`] : []),
+        ...(totals.skippedExpiringSoon > 0 ? [`${totals.skippedExpiringSoon} keys expiring within a minute`] : [])
+      ];
+      const skipped = skippedParts.length > 0 ? ` (${skippedParts.join(' and ')} skipped)` : '';
+      const where = destinations.length === 1 ? destinations[0] : path.dirname(destinations[0]);
+      vscode.window.showInformationMessage(`Exported ${totals.exported} keys to ${where}${skipped}`);
+    } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        return;
+      }
+      vscode.window.showErrorMessage(`Export failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.export', async (item: WorkerItem | NamespaceItem) => {
+      if (item instanceof NamespaceItem) {
+        await exportNamespaces([{ worker: item.worker, namespace: item.namespace }], `Export ${item.namespace.binding}`);
+      } else if (item instanceof WorkerItem) {
+        await exportNamespaces(
+          treeProvider.getVisibleNamespaces(item.worker).map(namespace => ({ worker: item.worker, namespace })),
+          `Export ${item.worker.name}`
+        );
+      }
+    }),
+    vscode.commands.registerCommand('cloudflare-kv-explorer.exportSearchResults', async () => {
+      await exportNamespaces(treeProvider.getSearchSelection(), 'Export Search Results');
+    })
+  );
+}
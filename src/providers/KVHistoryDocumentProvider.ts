@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { KVHistoryStore, KeyVersion, HISTORY_SCHEME } from './KVHistoryStore';
+import { decodeText, formatByteSize } from './ContentSniffer';
+import { formatJson } from './JsonFormatter';
+
+/**
+ * Read-only documents for recorded versions, so they can be opened in the diff editor next to
+ * the live `cloudflare-kv` entry. JSON is pretty-printed the same way open entries are.
+ */
+export class KVHistoryDocumentProvider implements vscode.TextDocumentContentProvider {
+  constructor(private historyStore: KVHistoryStore) {}
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const { id, deleted, stored, size } = JSON.parse(uri.query) as { id: number; deleted: boolean; stored: boolean; size: number };
+    if (deleted) {
+      return '(key deleted)';
+    }
+    if (!stored) {
+      return `(value of ${formatByteSize(size)} was too large to keep in history)`;
+    }
+
+    const bytes = await this.historyStore.getVersionContent(id);
+    if (!bytes) {
+      return '(version no longer in history)';
+    }
+    const text = decodeText(bytes);
+    if (text === null) {
+      return `(binary value, ${formatByteSize(bytes.byteLength)})`;
+    }
+    try {
+      return formatJson(text);
+    } catch {
+      return text;
+    }
+  }
+}
+
+export function createHistoryUri(key: string, version: KeyVersion): vscode.Uri {
+  const time = new Date(version.recordedAt).toLocaleString();
+  return vscode.Uri.from({
+    scheme: HISTORY_SCHEME,
+    path: `/${key} (${time})`,
+    query: JSON.stringify({ id: version.id, deleted: version.blobId === null, stored: version.stored, size: version.size })
+  });
+}
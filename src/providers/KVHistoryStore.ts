@@ -0,0 +1,409 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+import * as sqlite3 from '@vscode/sqlite3';
+import { KVDataProvider, KVEntry } from './KVDataProvider';
+import { WorkerProject } from './WorkerDiscovery';
+import { createKVUri } from './KVDocumentProvider';
+import { formatByteSize } from './ContentSniffer';
+import { KVHistoryDocumentProvider, createHistoryUri } from './KVHistoryDocumentProvider';
+import { KVTreeProvider, KeyItem } from './KVTreeProvider';
+import { outputChannel, DEBUG } from '../extension';
+
+export const HISTORY_SCHEME = 'cloudflare-kv-history';
+
+export interface KeyVersion {
+  id: number;
+  // null when the key was deleted
+  blobId: string | null;
+  recordedAt: number;
+  size: number;
+  // false when the value was too large to keep
+  stored: boolean;
+  expiration: number | null;
+  metadata: string | null;
+}
+
+interface TrackedNamespace {
+  workerPath: string;
+  namespaceId: string;
+}
+
+// Values larger than this are listed in the history but not kept
+const MAX_VALUE_SIZE = 1024 * 1024;
+
+// Keys deleted this long ago lose their history; nothing in the tree can show it any more
+const DELETED_KEY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Versions dropped at a time while the store is over its size limit
+const PRUNE_BATCH_SIZE = 100;
+
+// Changes to more keys than this (e.g. an import) are synced like a change to the whole namespace
+const MAX_KEYED_SYNC = 500;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS versions (
+  id INTEGER PRIMARY KEY,
+  namespace TEXT NOT NULL,
+  key TEXT NOT NULL,
+  blob_id TEXT,
+  recorded_at INTEGER NOT NULL,
+  size INTEGER NOT NULL,
+  content_hash TEXT,
+  expiration INTEGER,
+  metadata TEXT
+);
+CREATE INDEX IF NOT EXISTS versions_key_idx ON versions(namespace, key, id);
+CREATE TABLE IF NOT EXISTS contents (
+  hash TEXT PRIMARY KEY,
+  value BLOB NOT NULL
+);
+`;
+
+/**
+ * Keeps earlier values of keys in tracked namespaces, when `recordHistory` is on. Miniflare deletes
+ * a blob as soon as its key is rewritten, so the current value of every key is recorded when a
+ * namespace is first tracked, and each new blob ID seen after a change is recorded as a new
+ * version. Changes made through the extension name their keys, so only those are looked at.
+ * Contents are stored once per distinct value; only the latest `historyMaxVersions` versions of a
+ * key are kept, and the oldest versions go first once the contents exceed `historyMaxSize`.
+ */
+export class KVHistoryStore implements vscode.Disposable {
+  private db: Promise<sqlite3.Database> | undefined;
+  private tracked = new Map<string, TrackedNamespace>(); // namespace directory -> namespace
+  private queue: Promise<void> = Promise.resolve();
+  // Namespace directory -> keys changed since its queued sync was requested; undefined for all keys
+  private pending = new Map<string, Set<string> | undefined>();
+  private changeListener: vscode.Disposable;
+
+  constructor(
+    private storagePath: string,
+    private kvDataProvider: KVDataProvider
+  ) {
+    this.changeListener = kvDataProvider.onDidChangeNamespace(change => {
+      const dir = this.getNamespaceDir(change);
+      const namespace = this.tracked.get(dir);
+      if (namespace) {
+        this.requestSync(namespace, dir, change.keys);
+      }
+    });
+  }
+
+  /**
+   * Starts (or stops) tracking the namespaces of the given workers, following the `recordHistory` setting.
+   */
+  track(workers: WorkerProject[]): void {
+    const enabled = vscode.workspace.getConfiguration('cloudflareKVExplorer').get<boolean>('recordHistory', false);
+    const namespaces = enabled
+      ? workers.flatMap(worker => worker.kvNamespaces.map(ns => ({ workerPath: worker.path, namespaceId: ns.id })))
+      : [];
+
+    const wanted = new Map(namespaces.map(namespace => [this.getNamespaceDir(namespace), namespace]));
+    for (const dir of this.tracked.keys()) {
+      if (!wanted.has(dir)) {
+        this.tracked.delete(dir);
+      }
+    }
+    if (wanted.size > 0) {
+      // History of namespaces no worker binds any more can't be shown again
+      this.enqueue(() => this.pruneNamespaces([...wanted.keys()]));
+    }
+    for (const [dir, namespace] of wanted) {
+      if (!this.tracked.has(dir)) {
+        this.tracked.set(dir, namespace);
+        // Records the baseline, or what changed while VS Code wasn't running
+        this.requestSync(namespace, dir, undefined);
+      }
+    }
+  }
+
+  async getVersions(workerPath: string, namespaceId: string, key: string): Promise<KeyVersion[]> {
+    const db = await this.getDatabase();
+    const rows = await this.all<Omit<KeyVersion, 'stored'> & { stored: number }>(db,
+      `SELECT id, blob_id as blobId, recorded_at as recordedAt, size, content_hash IS NOT NULL as stored, expiration, metadata
+        FROM versions WHERE namespace = ? AND key = ? ORDER BY id DESC`,
+      [this.getNamespaceDir({ workerPath, namespaceId }), key]);
+    return rows.map(row => ({ ...row, stored: row.stored === 1 }));
+  }
+
+  async getVersionContent(id: number): Promise<Uint8Array | null> {
+    const db = await this.getDatabase();
+    const row = await this.get<{ value: Buffer }>(db,
+      'SELECT c.value FROM versions v JOIN contents c ON c.hash = v.content_hash WHERE v.id = ?', [id]);
+    return row ? row.value : null;
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch(error => {
+      console.error('[KVHistoryStore] Error recording history:', error);
+    });
+  }
+
+  // Changes that arrive while a sync is queued are folded into it rather than queued again
+  private requestSync(namespace: TrackedNamespace, dir: string, keys: string[] | undefined): void {
+    if (this.pending.has(dir)) {
+      const queued = this.pending.get(dir);
+      if (queued && keys) {
+        keys.forEach(key => queued.add(key));
+      } else {
+        this.pending.set(dir, undefined);
+      }
+      return;
+    }
+
+    this.pending.set(dir, keys ? new Set(keys) : undefined);
+    this.enqueue(() => {
+      const queued = this.pending.get(dir);
+      this.pending.delete(dir);
+      return this.sync(namespace, dir, queued && queued.size <= MAX_KEYED_SYNC ? [...queued] : undefined);
+    });
+  }
+
+  /**
+   * Records what changed in a namespace: only the given keys when the change named them,
+   * otherwise every key, comparing blob IDs so only values written since are read.
+   */
+  private async sync(namespace: TrackedNamespace, dir: string, keys?: string[]): Promise<void> {
+    const db = await this.getDatabase();
+    const config = vscode.workspace.getConfiguration('cloudflareKVExplorer');
+    const maxVersions = Math.max(1, config.get<number>('historyMaxVersions', 20));
+
+    let entries: KVEntry[];
+    let latest: Array<{ key: string; blobId: string | null }>;
+    if (keys) {
+      const found = await Promise.all(keys.map(key => this.kvDataProvider.getEntry(namespace.workerPath, namespace.namespaceId, key)));
+      entries = found.filter((entry): entry is KVEntry => entry !== null);
+      const placeholders = keys.map(() => '?').join(', ');
+      latest = await this.all(db,
+        `SELECT key, blob_id as blobId FROM versions
+          WHERE id IN (SELECT MAX(id) FROM versions WHERE namespace = ? AND key IN (${placeholders}) GROUP BY key)`,
+        [dir, ...keys]);
+    } else {
+      entries = (await this.kvDataProvider.getKVData(namespace.workerPath, namespace.namespaceId)).entries;
+      latest = await this.all(db,
+        `SELECT key, blob_id as blobId FROM versions
+          WHERE id IN (SELECT MAX(id) FROM versions WHERE namespace = ? GROUP BY key)`, [dir]);
+    }
+    const latestByKey = new Map(latest.map(row => [row.key, row.blobId]));
+
+    const now = Date.now();
+    const changedKeys: string[] = [];
+    await this.run(db, 'BEGIN');
+    try {
+      for (const entry of entries) {
+        if (latestByKey.get(entry.key) === entry.blobId) {
+          continue;
+        }
+        const bytes = await this.kvDataProvider.readBlobBytes(namespace.workerPath, namespace.namespaceId, entry.blobId);
+        if (!bytes) {
+          // Rewritten again since we listed it; the next change event records the newer value
+          continue;
+        }
+
+        let hash: string | null = null;
+        if (bytes.byteLength <= MAX_VALUE_SIZE) {
+          hash = crypto.createHash('sha256').update(bytes).digest('hex');
+          await this.run(db, 'INSERT OR IGNORE INTO contents (hash, value) VALUES (?, ?)', [hash, Buffer.from(bytes)]);
+        }
+        await this.run(db,
+          `INSERT INTO versions (namespace, key, blob_id, recorded_at, size, content_hash, expiration, metadata)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [dir, entry.key, entry.blobId, now, bytes.byteLength, hash, entry.expiration ?? null, entry.metadata ?? null]);
+        changedKeys.push(entry.key);
+      }
+
+      // Keys that disappeared get a deletion marker
+      const present = new Set(entries.map(entry => entry.key));
+      for (const [key, blobId] of latestByKey) {
+        if (blobId !== null && !present.has(key)) {
+          await this.run(db,
+            'INSERT INTO versions (namespace, key, blob_id, recorded_at, size) VALUES (?, ?, NULL, ?, 0)',
+            [dir, key, now]);
+          changedKeys.push(key);
+        }
+      }
+
+      for (const key of changedKeys) {
+        await this.run(db,
+          `DELETE FROM versions WHERE namespace = ? AND key = ? AND id NOT IN
+            (SELECT id FROM versions WHERE namespace = ? AND key = ? ORDER BY id DESC LIMIT ?)`,
+          [dir, key, dir, key, maxVersions]);
+      }
+
+      await this.run(db,
+        `DELETE FROM versions WHERE namespace = ? AND key IN
+          (SELECT key FROM versions WHERE id IN (SELECT MAX(id) FROM versions WHERE namespace = ? GROUP BY key)
+            AND blob_id IS NULL AND recorded_at < ?)`,
+        [dir, dir, now - DELETED_KEY_RETENTION_MS]);
+
+      if (changedKeys.length > 0) {
+        await this.pruneContents(db, Math.max(1, config.get<number>('historyMaxSize', 100)) * 1024 * 1024);
+      }
+
+      await this.run(db, 'COMMIT');
+    } catch (error) {
+      await this.run(db, 'ROLLBACK').catch(() => {});
+      throw error;
+    }
+
+    if (DEBUG && changedKeys.length > 0) {
+      outputChannel.appendLine(`[KVHistoryStore] Recorded ${changedKeys.length} versions in ${dir}`);
+    }
+  }
+
+  /**
+   * Drops contents no version refers to, then the oldest versions (never a key's latest one)
+   * until the stored values fit in `maxBytes`.
+   */
+  private async pruneContents(db: sqlite3.Database, maxBytes: number): Promise<void> {
+    for (;;) {
+      await this.run(db, 'DELETE FROM contents WHERE hash NOT IN (SELECT content_hash FROM versions WHERE content_hash IS NOT NULL)');
+      const total = await this.get<{ size: number }>(db, 'SELECT COALESCE(SUM(LENGTH(value)), 0) AS size FROM contents');
+      if (!total || total.size <= maxBytes) {
+        return;
+      }
+
+      const oldest = await this.all<{ id: number }>(db,
+        `SELECT id FROM versions WHERE content_hash IS NOT NULL
+          AND id NOT IN (SELECT MAX(id) FROM versions GROUP BY namespace, key)
+          ORDER BY id LIMIT ?`,
+        [PRUNE_BATCH_SIZE]);
+      if (oldest.length === 0) {
+        return;
+      }
+      await this.run(db, `DELETE FROM versions WHERE id IN (${oldest.map(() => '?').join(', ')})`, oldest.map(row => row.id));
+    }
+  }
+
+  private async pruneNamespaces(dirs: string[]): Promise<void> {
+    const db = await this.getDatabase();
+    await this.run(db, `DELETE FROM versions WHERE namespace NOT IN (${dirs.map(() => '?').join(', ')})`, dirs);
+    await this.run(db, 'DELETE FROM contents WHERE hash NOT IN (SELECT content_hash FROM versions WHERE content_hash IS NOT NULL)');
+  }
+
+  private getNamespaceDir(namespace: TrackedNamespace): string {
+    return path.join(this.kvDataProvider.getKVPath(namespace.workerPath), namespace.namespaceId);
+  }
+
+  private getDatabase(): Promise<sqlite3.Database> {
+    if (!this.db) {
+      this.db = (async () => {
+        await fs.mkdir(this.storagePath, { recursive: true });
+        const db = new sqlite3.Database(path.join(this.storagePath, 'kv-history.sqlite'));
+        await new Promise<void>((resolve, reject) => {
+          db.exec(SCHEMA, (err: Error | null) => (err ? reject(err) : resolve()));
+        });
+        return db;
+      })();
+      // Allow a retry if opening failed
+      this.db.catch(() => {
+        this.db = undefined;
+      });
+    }
+    return this.db;
+  }
+
+  private run(db: sqlite3.Database, sql: string, params: any[] = []): Promise<void> {
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, (err: Error | null) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private get<T>(db: sqlite3.Database, sql: string, params: any[] = []): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      db.get(sql, params, (err: Error | null, row: T | undefined) => (err ? reject(err) : resolve(row)));
+    });
+  }
+
+  private all<T>(db: sqlite3.Database, sql: string, params: any[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      db.all(sql, params, (err: Error | null, rows: T[]) => (err ? reject(err) : resolve(rows)));
+    });
+  }
+
+  dispose(): void {
+    this.changeListener.dispose();
+    this.db?.then(db => db.close()).catch(() => {});
+  }
+}
+
+/**
+ * Records value history for the workers in the tree, and shows a key's recorded versions as diffs.
+ */
+export function registerHistoryCommands(
+  context: vscode.ExtensionContext,
+  kvDataProvider: KVDataProvider,
+  treeProvider: KVTreeProvider
+): void {
+  const historyStore = new KVHistoryStore((context.storageUri ?? context.globalStorageUri).fsPath, kvDataProvider);
+  context.subscriptions.push(
+    historyStore,
+    vscode.workspace.registerTextDocumentContentProvider(HISTORY_SCHEME, new KVHistoryDocumentProvider(historyStore)),
+    treeProvider.onDidChangeWorkers(workers => historyStore.track(workers)),
+    vscode.workspace.onDidChangeConfiguration(async e => {
+      if (e.affectsConfiguration('cloudflareKVExplorer.recordHistory')) {
+        historyStore.track(await treeProvider.getWorkers());
+      }
+    }),
+
+    // Pick one recorded version to diff against the current value, or two to diff against each other
+    vscode.commands.registerCommand('cloudflare-kv-explorer.showHistory', async (item: KeyItem) => {
+      if (!(item instanceof KeyItem)) {
+        return;
+      }
+
+      const versions = await historyStore.getVersions(item.worker.path, item.namespaceId, item.entry.key);
+      if (versions.length === 0) {
+        const config = vscode.workspace.getConfiguration('cloudflareKVExplorer');
+        if (config.get<boolean>('recordHistory', false)) {
+          vscode.window.showInformationMessage(
+            `No history recorded for ${item.entry.key} yet. Versions are recorded while the extension is running.`
+          );
+        } else if (await vscode.window.showInformationMessage(
+          `No history recorded for ${item.entry.key}. Value history is off (cloudflareKVExplorer.recordHistory).`,
+          'Turn On Recording'
+        )) {
+          await config.update('recordHistory', true, vscode.ConfigurationTarget.Workspace);
+        }
+        return;
+      }
+
+      const items = versions.map(version => ({
+        label: new Date(version.recordedAt).toLocaleString(),
+        description: version.blobId === null
+          ? 'deleted'
+          : [
+            version.blobId === item.entry.blobId ? 'current' : undefined,
+            formatByteSize(version.size),
+            version.stored ? undefined : 'too large to keep'
+          ].filter(Boolean).join(' · '),
+        version
+      }));
+
+      const picked = await vscode.window.showQuickPick(items, {
+        title: `History of ${item.entry.key}`,
+        placeHolder: 'Select a version to compare with the current value, or two versions to compare',
+        canPickMany: true
+      });
+      if (!picked || picked.length === 0) return;
+      if (picked.length > 2) {
+        vscode.window.showWarningMessage('Select at most two versions to compare');
+        return;
+      }
+
+      // Older version on the left
+      const [newer, older] = picked.length === 2 ? picked : [undefined, picked[0]];
+      const left = createHistoryUri(item.entry.key, older.version);
+      const right = newer
+        ? createHistoryUri(item.entry.key, newer.version)
+        : createKVUri(item.worker.path, item.namespaceId, item.entry.key);
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        left,
+        right,
+        `${item.entry.key}: ${older.label} ↔ ${newer ? newer.label : 'current'}`
+      );
+    })
+  );
+}
@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { KVDataProvider, KVBulkValue, MAX_METADATA_SIZE, MIN_TTL, isExpired } from './KVDataProvider';
+import { NamespaceItem } from './KVTreeProvider';
+
+// overwrite: write every key in the file; skip: leave keys that already exist alone;
+// replace: make the namespace contain exactly the file's keys
+export type ImportMode = 'overwrite' | 'skip' | 'replace';
+
+export interface ParsedImport {
+  values: KVBulkValue[];
+  // Problems with individual records, which are left out of the import
+  errors: string[];
+}
+
+export interface ImportPreview {
+  added: number;
+  overwritten: number;
+  // Existing keys the import doesn't touch (skipped or not in the file)
+  untouched: number;
+  deleted: number;
+}
+
+// Limits Cloudflare enforces, so an import that works locally also works remotely
+const MAX_KEY_SIZE = 512;
+
+/**
+ * Reads `wrangler kv bulk put` JSON files (an array of `{ key, value, base64?, expiration?,
+ * expiration_ttl?, metadata? }`) and loads them into a local namespace through `KVDataProvider`.
+ */
+export class KVImporter {
+  constructor(private kvDataProvider: KVDataProvider) {}
+
+  parse(content: string, now: number = Date.now()): ParsedImport {
+    let records: unknown;
+    try {
+      records = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!Array.isArray(records)) {
+      throw new Error('Expected a JSON array of { "key": ..., "value": ... } objects');
+    }
+
+    const values = new Map<string, KVBulkValue>(); // later records win, like repeated puts
+    const errors: string[] = [];
+    records.forEach((record, index) => {
+      try {
+        const value = this.parseRecord(record, now);
+        values.delete(value.key);
+        values.set(value.key, value);
+      } catch (error) {
+        errors.push(`#${index + 1}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    return { values: [...values.values()], errors };
+  }
+
+  private parseRecord(record: unknown, now: number): KVBulkValue {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new Error('not an object');
+    }
+    const { key, value, base64, expiration, expiration_ttl: expirationTtl, metadata } = record as Record<string, unknown>;
+
+    if (typeof key !== 'string' || key.length === 0) {
+      throw new Error('"key" must be a non-empty string');
+    }
+    if (Buffer.byteLength(key) > MAX_KEY_SIZE) {
+      throw new Error(`key "${key.slice(0, 40)}…" is longer than ${MAX_KEY_SIZE} bytes`);
+    }
+    if (typeof value !== 'string') {
+      throw new Error(`"value" of "${key}" must be a string`);
+    }
+    if (base64 !== undefined && typeof base64 !== 'boolean') {
+      throw new Error(`"base64" of "${key}" must be true or false`);
+    }
+
+    // Stored the way Miniflare stores it: milliseconds since the epoch
+    let expiresAt: number | undefined;
+    if (expiration !== undefined) {
+      if (typeof expiration !== 'number' || expiration * 1000 < now + MIN_TTL * 1000) {
+        throw new Error(`"expiration" of "${key}" must be a Unix time in seconds at least ${MIN_TTL}s from now`);
+      }
+      expiresAt = expiration * 1000;
+    } else if (expirationTtl !== undefined) {
+      if (typeof expirationTtl !== 'number' || expirationTtl < MIN_TTL) {
+        throw new Error(`"expiration_ttl" of "${key}" must be at least ${MIN_TTL} seconds`);
+      }
+      expiresAt = now + expirationTtl * 1000;
+    }
+
+    let serialisedMetadata: string | undefined;
+    if (metadata !== undefined && metadata !== null) {
+      serialisedMetadata = JSON.stringify(metadata);
+      if (Buffer.byteLength(serialisedMetadata) > MAX_METADATA_SIZE) {
+        throw new Error(`"metadata" of "${key}" is larger than ${MAX_METADATA_SIZE} bytes`);
+      }
+    }
+
+    return {
+      key,
+      value: base64 ? Buffer.from(value, 'base64') : value,
+      options: { expiration: expiresAt, metadata: serialisedMetadata }
+    };
+  }
+
+  /**
+   * What importing `values` would do to the namespace in each mode.
+   */
+  async preview(workerPath: string, namespaceId: string, values: KVBulkValue[]): Promise<Record<ImportMode, ImportPreview>> {
+    const existing = await this.liveKeys(workerPath, namespaceId);
+    const overlapping = values.filter(value => existing.has(value.key)).length;
+    const added = values.length - overlapping;
+
+    return {
+      overwrite: { added, overwritten: overlapping, untouched: existing.size - overlapping, deleted: 0 },
+      skip: { added, overwritten: 0, untouched: existing.size, deleted: 0 },
+      replace: { added, overwritten: overlapping, untouched: 0, deleted: existing.size - overlapping }
+    };
+  }
+
+  async import(
+    workerPath: string,
+    namespaceId: string,
+    values: KVBulkValue[],
+    mode: ImportMode,
+    onProgress?: (written: number, total: number) => void
+  ): Promise<number> {
+    let toWrite = values;
+    if (mode === 'skip') {
+      const existing = await this.liveKeys(workerPath, namespaceId);
+      toWrite = values.filter(value => !existing.has(value.key));
+    }
+
+    await this.kvDataProvider.putValues(workerPath, namespaceId, toWrite, {
+      replaceAll: mode === 'replace',
+      onProgress: written => onProgress?.(written, toWrite.length)
+    });
+    return toWrite.length;
+  }
+
+  // Keys in the namespace, leaving out expired entries Miniflare hasn't purged, which reads don't see
+  private async liveKeys(workerPath: string, namespaceId: string): Promise<Set<string>> {
+    const data = await this.kvDataProvider.getKVData(workerPath, namespaceId);
+    const now = Date.now();
+    return new Set(data.entries.filter(entry => !isExpired(entry, now)).map(entry => entry.key));
+  }
+}
+
+/**
+ * Load a `wrangler kv bulk` JSON file into a local namespace.
+ */
+export function registerImportCommands(context: vscode.ExtensionContext, kvDataProvider: KVDataProvider): void {
+  const importer = new KVImporter(kvDataProvider);
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.import', async (item: NamespaceItem) => {
+      if (!(item instanceof NamespaceItem)) {
+        return;
+      }
+      const title = `Import into ${item.namespace.binding}`;
+
+      const files = await vscode.window.showOpenDialog({
+        title,
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+        filters: { 'Bulk JSON': ['json'] },
+        openLabel: 'Import'
+      });
+      if (!files) return;
+
+      let parsed;
+      try {
+        parsed = importer.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(files[0])));
+      } catch (error) {
+        vscode.window.showErrorMessage(`Can't import ${path.basename(files[0].fsPath)}: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+
+      if (parsed.errors.length > 0) {
+        const shown = parsed.errors.slice(0, 5).join('\n');
+        const more = parsed.errors.length > 5 ? `\n…and ${parsed.errors.length - 5} more` : '';
+        const choice = await vscode.window.showWarningMessage(
+          `${parsed.errors.length} entries in ${path.basename(files[0].fsPath)} are invalid and will be skipped.`,
+          { modal: true, detail: shown + more },
+          ...(parsed.values.length > 0 ? [`Import ${parsed.values.length} Valid Entries`] : [])
+        );
+        if (!choice) return;
+      }
+      if (parsed.values.length === 0) {
+        vscode.window.showWarningMessage(`${path.basename(files[0].fsPath)} contains no entries`);
+        return;
+      }
+
+      let preview: Record<ImportMode, ImportPreview>;
+      try {
+        preview = await importer.preview(item.worker.path, item.namespace.id, parsed.values);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Import failed: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+      const describe = ({ added, overwritten, untouched, deleted }: ImportPreview) =>
+        [`${added} added`, `${overwritten} overwritten`, `${untouched} left alone`, ...(deleted ? [`${deleted} deleted`] : [])].join(', ');
+
+      const modes: Array<{ label: string; description: string; mode: ImportMode }> = [
+        { label: 'Overwrite existing keys', description: describe(preview.overwrite), mode: 'overwrite' },
+        { label: 'Skip existing keys', description: describe(preview.skip), mode: 'skip' },
+        { label: 'Replace namespace contents', description: describe(preview.replace), mode: 'replace' }
+      ];
+      const choice = await vscode.window.showQuickPick(modes, {
+        title: `${title}: ${parsed.values.length} entries`,
+        placeHolder: 'How should keys that already exist be handled?'
+      });
+      if (!choice) return;
+
+      if (choice.mode === 'replace' && preview.replace.deleted > 0) {
+        const confirm = await vscode.window.showWarningMessage(
+          `Delete ${preview.replace.deleted} keys from ${item.namespace.binding} that aren't in the file?`,
+          { modal: true, detail: 'This cannot be undone.' },
+          'Replace'
+        );
+        if (confirm !== 'Replace') return;
+      }
+
+      try {
+        const written = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title },
+          progress => {
+            let reported = 0;
+            return importer.import(item.worker.path, item.namespace.id, parsed.values, choice.mode, (done, total) => {
+              if (done % 50 === 0 || done === total) {
+                progress.report({ message: `${done}/${total}`, increment: ((done - reported) / total) * 100 });
+                reported = done;
+              }
+            });
+          }
+        );
+        vscode.window.showInformationMessage(`Imported ${written} keys into ${item.namespace.binding}`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Import failed: ${error instanceof Error ? error.message : error}`);
+      }
+    })
+  );
+}
@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as crypto from 'crypto';
+import { KVDataProvider, getExpirationTime, isExpired } from './KVDataProvider';
+import { getNamespaceLabel } from './WorkerDiscovery';
+import { KVExportFileDocumentProvider, EXPORT_FILE_SCHEME } from './KVExportFileDocumentProvider';
+import { KVCompareReportPanel } from './KVCompareReportPanel';
+import { KVTreeProvider, NamespaceItem } from './KVTreeProvider';
+
+export type CompareSide =
+  | { kind: 'namespace'; workerPath: string; namespaceId: string; label: string }
+  | { kind: 'file'; path: string; label: string };
+
+export interface ChangedKey {
+  key: string;
+  value: boolean;
+  metadata: boolean;
+  expiration: boolean;
+}
+
+export interface NamespaceComparison {
+  onlyInA: string[];
+  onlyInB: string[];
+  changed: ChangedKey[];
+  identical: number;
+}
+
+// A record from an exported file (bulk JSON or NDJSON), as written by Export…
+export interface ExportRecord {
+  key: string;
+  value: string;
+  base64?: boolean;
+  expiration?: number;
+  metadata?: unknown;
+}
+
+interface SideEntry {
+  hash: () => Promise<string>;
+  // Seconds, the unit exports use
+  expiration: number | null;
+  metadata: string | null;
+}
+
+/**
+ * Reads an exported file leniently: a JSON array, or one JSON object per line.
+ */
+export async function readExportFile(filePath: string): Promise<ExportRecord[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  let records: unknown;
+  try {
+    records = JSON.parse(content);
+  } catch {
+    records = content.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line));
+  }
+  if (!Array.isArray(records)) {
+    throw new Error('Expected a JSON array or NDJSON records');
+  }
+  return records.filter((record): record is ExportRecord =>
+    !!record && typeof record.key === 'string' && typeof record.value === 'string');
+}
+
+export function getRecordBytes(record: ExportRecord): Uint8Array {
+  return record.base64 ? Buffer.from(record.value, 'base64') : Buffer.from(record.value, 'utf-8');
+}
+
+/**
+ * Compares two namespaces (or a namespace and an export) key by key. Values are compared by
+ * content, metadata as parsed JSON and expirations to the second.
+ */
+export class KVNamespaceComparer {
+  constructor(private kvDataProvider: KVDataProvider) {}
+
+  async compare(
+    a: CompareSide,
+    b: CompareSide,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    token?: vscode.CancellationToken
+  ): Promise<NamespaceComparison> {
+    const [entriesA, entriesB] = await Promise.all([this.load(a), this.load(b)]);
+    const result: NamespaceComparison = { onlyInA: [], onlyInB: [], changed: [], identical: 0 };
+
+    const shared: string[] = [];
+    for (const key of entriesA.keys()) {
+      (entriesB.has(key) ? shared : result.onlyInA).push(key);
+    }
+    result.onlyInB = [...entriesB.keys()].filter(key => !entriesA.has(key));
+
+    for (const [index, key] of shared.entries()) {
+      if (token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
+      const entryA = entriesA.get(key)!;
+      const entryB = entriesB.get(key)!;
+      const changed: ChangedKey = {
+        key,
+        value: (await entryA.hash()) !== (await entryB.hash()),
+        metadata: entryA.metadata !== entryB.metadata,
+        expiration: entryA.expiration !== entryB.expiration
+      };
+      if (changed.value || changed.metadata || changed.expiration) {
+        result.changed.push(changed);
+      } else {
+        result.identical++;
+      }
+      if (index % 50 === 0) {
+        progress?.report({ message: `${index}/${shared.length}`, increment: (50 / shared.length) * 100 });
+      }
+    }
+
+    result.onlyInA.sort();
+    result.onlyInB.sort();
+    return result;
+  }
+
+  private async load(side: CompareSide): Promise<Map<string, SideEntry>> {
+    const entries = new Map<string, SideEntry>();
+
+    if (side.kind === 'file') {
+      for (const record of await readExportFile(side.path)) {
+        entries.set(record.key, {
+          hash: async () => hashBytes(getRecordBytes(record)),
+          expiration: record.expiration ?? null,
+          metadata: record.metadata !== undefined && record.metadata !== null ? JSON.stringify(record.metadata) : null
+        });
+      }
+      return entries;
+    }
+
+    // Expired entries are left out of exports and Miniflare no longer returns them
+    const data = await this.kvDataProvider.getKVData(side.workerPath, side.namespaceId);
+    const now = Date.now();
+    for (const entry of data.entries.filter(entry => !isExpired(entry, now))) {
+      entries.set(entry.key, {
+        hash: async () => {
+          const bytes = await this.kvDataProvider.readBlobBytes(side.workerPath, side.namespaceId, entry.blobId);
+          return bytes ? hashBytes(bytes) : '';
+        },
+        expiration: entry.expiration ? Math.floor(getExpirationTime(entry.expiration) / 1000) : null,
+        metadata: normalizeMetadata(entry.metadata)
+      });
+    }
+    return entries;
+  }
+}
+
+export function hashBytes(bytes: Uint8Array): string {
+  return crypto.createHash('sha256').update(bytes).digest('hex');
+}
+
+// Same metadata serialised with different whitespace should compare equal
+export function normalizeMetadata(metadata: string | undefined | null): string | null {
+  if (!metadata) {
+    return null;
+  }
+  try {
+    return JSON.stringify(JSON.parse(metadata));
+  } catch {
+    return metadata;
+  }
+}
+
+/**
+ * Compare two namespaces, or a namespace and an exported file.
+ */
+export function registerCompareCommands(
+  context: vscode.ExtensionContext,
+  kvDataProvider: KVDataProvider,
+  treeProvider: KVTreeProvider
+): void {
+  const comparer = new KVNamespaceComparer(kvDataProvider);
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(EXPORT_FILE_SCHEME, new KVExportFileDocumentProvider()),
+    vscode.commands.registerCommand('cloudflare-kv-explorer.compareNamespaces', async (item?: NamespaceItem) => {
+      const workers = await treeProvider.getWorkers();
+      const namespaceSides = workers.flatMap(worker =>
+        worker.kvNamespaces.map(namespace => ({
+          label: getNamespaceLabel(namespace),
+          description: `${worker.name} · ${namespace.id}`,
+          side: {
+            kind: 'namespace',
+            workerPath: worker.path,
+            namespaceId: namespace.id,
+            label: workers.length > 1 ? `${worker.name}/${getNamespaceLabel(namespace)}` : getNamespaceLabel(namespace)
+          } as CompareSide
+        }))
+      );
+      const isSame = (side: CompareSide, other: CompareSide) =>
+        side.kind === 'namespace' && other.kind === 'namespace' &&
+        side.workerPath === other.workerPath && side.namespaceId === other.namespaceId;
+
+      let a: CompareSide | undefined = item instanceof NamespaceItem
+        ? namespaceSides.find(candidate =>
+          isSame(candidate.side, { kind: 'namespace', workerPath: item.worker.path, namespaceId: item.namespace.id, label: '' })
+        )?.side
+        : undefined;
+      if (!a) {
+        a = (await vscode.window.showQuickPick(namespaceSides, {
+          title: 'Compare Namespaces',
+          placeHolder: 'First namespace'
+        }))?.side;
+        if (!a) return;
+      }
+      const first = a;
+
+      const fileOption = { label: '$(file) Exported File…', description: 'Bulk JSON or NDJSON from Export…', side: undefined };
+      const choice = await vscode.window.showQuickPick(
+        [...namespaceSides.filter(candidate => !isSame(candidate.side, first)), fileOption],
+        { title: `Compare ${first.label} with`, placeHolder: 'Second namespace or exported file' }
+      );
+      if (!choice) return;
+
+      let b = choice.side;
+      if (!b) {
+        const files = await vscode.window.showOpenDialog({
+          title: `Compare ${first.label} with`,
+          defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+          filters: { 'Exports': ['json', 'ndjson'] },
+          openLabel: 'Compare'
+        });
+        if (!files) return;
+        b = { kind: 'file', path: files[0].fsPath, label: path.basename(files[0].fsPath) };
+      }
+      const second = b;
+
+      try {
+        const comparison = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Comparing ${first.label} with ${second.label}`, cancellable: true },
+          (progress, token) => comparer.compare(first, second, progress, token)
+        );
+        KVCompareReportPanel.show(first, second, comparison);
+      } catch (error) {
+        if (!(error instanceof vscode.CancellationError)) {
+          vscode.window.showErrorMessage(`Compare failed: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    })
+  );
+}
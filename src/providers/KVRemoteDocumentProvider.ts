@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import { CloudflareKVClient } from './CloudflareKVClient';
+import { decodeText } from './ContentSniffer';
+import { formatJson } from './JsonFormatter';
+
+export const REMOTE_SCHEME = 'cloudflare-kv-remote';
+
+interface RemoteUriParts {
+  namespaceId: string;
+  key?: string;
+  metadata: boolean;
+}
+
+interface CachedEntry {
+  content: Uint8Array;
+  mtime: number;
+}
+
+/**
+ * Read-only view of keys in remote namespaces, fetched through the REST API. Registered with
+ * `isReadonly` so editors open without save; values are cached until the tree is refreshed.
+ */
+export class KVRemoteDocumentProvider implements vscode.FileSystemProvider {
+  private contentCache = new Map<string, CachedEntry>();
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this._onDidChangeFile.event;
+
+  constructor(private client: CloudflareKVClient) {}
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => {});
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    if (parseRemoteUri(uri).key === undefined) {
+      return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+    }
+    const entry = await this.loadEntry(uri);
+    return {
+      type: vscode.FileType.File,
+      ctime: 0,
+      mtime: entry.mtime,
+      size: entry.content.byteLength,
+      permissions: vscode.FilePermission.Readonly
+    };
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    return (await this.loadEntry(uri)).content;
+  }
+
+  async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    const { namespaceId, key } = parseRemoteUri(uri);
+    if (key !== undefined) {
+      throw vscode.FileSystemError.FileNotADirectory(uri);
+    }
+    const keys = await this.client.listAllKeys(namespaceId);
+    return keys.map(remoteKey => [encodeURIComponent(remoteKey.name), vscode.FileType.File]);
+  }
+
+  writeFile(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+
+  // Drops cached values so the next read goes back to the API
+  refreshAll(): void {
+    const uris = [...this.contentCache.keys()].map(cacheKey => vscode.Uri.parse(cacheKey));
+    this.contentCache.clear();
+    if (uris.length > 0) {
+      this._onDidChangeFile.fire(uris.map(uri => ({ type: vscode.FileChangeType.Changed, uri })));
+    }
+  }
+
+  private async loadEntry(uri: vscode.Uri): Promise<CachedEntry> {
+    const cacheKey = uri.toString();
+    const cached = this.contentCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const { namespaceId, key, metadata } = parseRemoteUri(uri);
+    if (key === undefined) {
+      throw vscode.FileSystemError.FileIsADirectory(uri);
+    }
+
+    let content: Uint8Array;
+    try {
+      content = metadata
+        ? await this.loadMetadata(uri, namespaceId, key)
+        : await this.loadValue(uri, namespaceId, key);
+    } catch (error) {
+      if (error instanceof vscode.FileSystemError) {
+        throw error;
+      }
+      console.error('Error fetching remote KV content:', error);
+      throw vscode.FileSystemError.Unavailable(error instanceof Error ? error.message : uri);
+    }
+
+    const entry: CachedEntry = { content, mtime: Date.now() };
+    this.contentCache.set(cacheKey, entry);
+    return entry;
+  }
+
+  private async loadValue(uri: vscode.Uri, namespaceId: string, key: string): Promise<Uint8Array> {
+    const bytes = await this.client.getValue(namespaceId, key);
+    if (bytes === null) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+
+    // Same presentation as local entries: binary as-is, JSON pretty-printed
+    const text = decodeText(bytes);
+    if (text === null) {
+      return bytes;
+    }
+    try {
+      return new TextEncoder().encode(formatJson(text));
+    } catch {
+      return bytes;
+    }
+  }
+
+  private async loadMetadata(uri: vscode.Uri, namespaceId: string, key: string): Promise<Uint8Array> {
+    const metadata = await this.client.getMetadata(namespaceId, key);
+    return new TextEncoder().encode(
+      metadata === null || metadata === undefined ? '' : JSON.stringify(metadata, null, 2)
+    );
+  }
+
+  dispose() {
+    this.contentCache.clear();
+    this._onDidChangeFile.dispose();
+  }
+}
+
+export function parseRemoteUri(uri: vscode.Uri): RemoteUriParts {
+  // URI format: cloudflare-kv-remote:/namespace-id/key
+  const pathParts = uri.path.split('/').filter(p => p);
+  if (pathParts.length < 1) {
+    throw vscode.FileSystemError.FileNotFound(uri);
+  }
+  return {
+    namespaceId: pathParts[0],
+    key: pathParts.length > 1 ? decodeURIComponent(pathParts.slice(1).join('/')) : undefined,
+    metadata: uri.query === 'metadata'
+  };
+}
+
+export function createRemoteKVUri(namespaceId: string, key: string, metadata: boolean = false): vscode.Uri {
+  return vscode.Uri.from({
+    scheme: REMOTE_SCHEME,
+    path: `/${namespaceId}/${encodeURIComponent(key)}`,
+    query: metadata ? 'metadata' : undefined
+  });
+}
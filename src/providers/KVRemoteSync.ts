@@ -0,0 +1,371 @@
+import * as vscode from 'vscode';
+import { KVDataProvider, KVBulkValue, MIN_TTL, getExpirationTime, isExpired } from './KVDataProvider';
+import { CloudflareKVClient, RemoteBulkValue, promptForCredentials } from './CloudflareKVClient';
+import { KVRemoteDocumentProvider } from './KVRemoteDocumentProvider';
+import { hashBytes, normalizeMetadata } from './KVNamespaceComparer';
+import { KVTreeProvider, NamespaceItem } from './KVTreeProvider';
+
+export type SyncDirection = 'pull' | 'push';
+
+export type SyncSelection =
+  | { kind: 'all' }
+  | { kind: 'prefix'; prefix: string }
+  | { kind: 'keys'; keys: Set<string> };
+
+interface SyncEntry {
+  // Loaded on demand, since unchanged keys on the destination side never need their bytes
+  bytes: () => Promise<Uint8Array | null>;
+  // Seconds since the epoch, the unit the REST API uses
+  expiration: number | null;
+  // Normalised JSON
+  metadata: string | null;
+}
+
+export interface SyncPlan {
+  direction: SyncDirection;
+  workerPath: string;
+  namespaceId: string;
+  added: string[];
+  changed: string[];
+  // In the selection on the destination side but missing from the source
+  deleted: string[];
+  unchanged: number;
+  // Local keys a push leaves out because they expire within a minute (the API's minimum TTL)
+  skipped: string[];
+  // Source values for added and changed keys, read while planning
+  values: Map<string, { bytes: Uint8Array; expiration: number | null; metadata: string | null }>;
+}
+
+// Parallel value requests while planning
+const FETCH_CONCURRENCY = 6;
+
+/**
+ * Copies keys between a namespace's local state and the same namespace on Cloudflare. Planning
+ * reads both sides and works out what would change; applying writes exactly the planned values,
+ * so what was confirmed is what gets written.
+ */
+export class KVRemoteSync {
+  constructor(
+    private kvDataProvider: KVDataProvider,
+    private client: CloudflareKVClient
+  ) {}
+
+  async plan(
+    direction: SyncDirection,
+    workerPath: string,
+    namespaceId: string,
+    selection: SyncSelection,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    token?: vscode.CancellationToken
+  ): Promise<SyncPlan> {
+    progress?.report({ message: 'Listing keys…' });
+    const [local, remote] = await Promise.all([
+      this.loadLocal(workerPath, namespaceId, selection),
+      this.loadRemote(namespaceId, selection)
+    ]);
+    // Keys a push can't write are left alone on both sides
+    const skipped = direction === 'push' ? local.expiringSoon : [];
+    for (const key of skipped) {
+      local.entries.delete(key);
+      remote.delete(key);
+    }
+    const source = direction === 'pull' ? remote : local.entries;
+    const destination = direction === 'pull' ? local.entries : remote;
+
+    const plan: SyncPlan = {
+      direction,
+      workerPath,
+      namespaceId,
+      added: [],
+      changed: [],
+      deleted: [...destination.keys()].filter(key => !source.has(key)).sort(),
+      unchanged: 0,
+      skipped,
+      values: new Map()
+    };
+
+    const keys = [...source.keys()].sort();
+    let done = 0;
+    await forEachLimit(keys, FETCH_CONCURRENCY, async key => {
+      if (token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
+      const entry = source.get(key)!;
+      const bytes = await entry.bytes();
+      if (bytes) {
+        const existing = destination.get(key);
+        if (!existing) {
+          plan.added.push(key);
+          plan.values.set(key, { bytes, expiration: entry.expiration, metadata: entry.metadata });
+        } else if (
+          existing.expiration !== entry.expiration ||
+          existing.metadata !== entry.metadata ||
+          hashBytes(bytes) !== hashBytes((await existing.bytes()) ?? new Uint8Array())
+        ) {
+          plan.changed.push(key);
+          plan.values.set(key, { bytes, expiration: entry.expiration, metadata: entry.metadata });
+        } else {
+          plan.unchanged++;
+        }
+      }
+      // A value that disappeared since listing is simply left out
+
+      done++;
+      if (done % 20 === 0 || done === keys.length) {
+        progress?.report({ message: `Comparing ${done}/${keys.length}`, increment: (20 / keys.length) * 100 });
+      }
+    });
+
+    plan.added.sort();
+    plan.changed.sort();
+    return plan;
+  }
+
+  /**
+   * Writes the planned values to the destination, and deletes the planned deletions unless
+   * `deleteMissing` is false.
+   */
+  async apply(plan: SyncPlan, deleteMissing: boolean, onProgress?: (written: number) => void): Promise<void> {
+    const deleteKeys = deleteMissing ? plan.deleted : [];
+
+    if (plan.direction === 'pull') {
+      const values: KVBulkValue[] = [...plan.values].map(([key, value]) => ({
+        key,
+        value: value.bytes,
+        options: {
+          // Miniflare stores milliseconds
+          expiration: value.expiration !== null ? value.expiration * 1000 : undefined,
+          metadata: value.metadata ?? undefined
+        }
+      }));
+      await this.kvDataProvider.putValues(plan.workerPath, plan.namespaceId, values, { deleteKeys, onProgress });
+      return;
+    }
+
+    const values: RemoteBulkValue[] = [...plan.values].map(([key, value]) => ({
+      key,
+      value: Buffer.from(value.bytes).toString('base64'),
+      base64: true,
+      expiration: value.expiration ?? undefined,
+      metadata: value.metadata !== null ? parseMetadata(value.metadata) : undefined
+    }));
+    await this.client.putBulk(plan.namespaceId, values, onProgress);
+    if (deleteKeys.length > 0) {
+      await this.client.deleteBulk(plan.namespaceId, deleteKeys);
+    }
+  }
+
+  private async loadLocal(
+    workerPath: string,
+    namespaceId: string,
+    selection: SyncSelection
+  ): Promise<{ entries: Map<string, SyncEntry>; expiringSoon: string[] }> {
+    const data = await this.kvDataProvider.getKVData(workerPath, namespaceId);
+    const entries = new Map<string, SyncEntry>();
+    const expiringSoon: string[] = [];
+    const now = Date.now();
+
+    for (const entry of data.entries) {
+      // Expired entries are invisible to reads, so they take no part in either direction
+      if (!isSelected(entry.key, selection) || isExpired(entry, now)) {
+        continue;
+      }
+      const expiration = entry.expiration ? Math.floor(getExpirationTime(entry.expiration) / 1000) : null;
+      if (expiration !== null && expiration < now / 1000 + MIN_TTL) {
+        expiringSoon.push(entry.key);
+      }
+      entries.set(entry.key, {
+        bytes: () => this.kvDataProvider.readBlobBytes(workerPath, namespaceId, entry.blobId),
+        expiration,
+        metadata: normalizeMetadata(entry.metadata)
+      });
+    }
+    return { entries, expiringSoon };
+  }
+
+  private async loadRemote(namespaceId: string, selection: SyncSelection): Promise<Map<string, SyncEntry>> {
+    const keys = await this.client.listAllKeys(namespaceId, selection.kind === 'prefix' ? selection.prefix : undefined);
+    const entries = new Map<string, SyncEntry>();
+    for (const remoteKey of keys) {
+      if (!isSelected(remoteKey.name, selection)) {
+        continue;
+      }
+      entries.set(remoteKey.name, {
+        bytes: () => this.client.getValue(namespaceId, remoteKey.name),
+        expiration: remoteKey.expiration ?? null,
+        metadata: remoteKey.metadata !== undefined && remoteKey.metadata !== null ? JSON.stringify(remoteKey.metadata) : null
+      });
+    }
+    return entries;
+  }
+}
+
+function isSelected(key: string, selection: SyncSelection): boolean {
+  switch (selection.kind) {
+    case 'all':
+      return true;
+    case 'prefix':
+      return key.startsWith(selection.prefix);
+    case 'keys':
+      return selection.keys.has(key);
+  }
+}
+
+async function forEachLimit<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
+
+// Metadata written by Miniflare is always JSON, but anything else is sent as a string rather than dropped
+function parseMetadata(metadata: string): unknown {
+  try {
+    return JSON.parse(metadata);
+  } catch {
+    return metadata;
+  }
+}
+
+/**
+ * Copy keys between local state and the same namespace on Cloudflare, after a dry run.
+ */
+export function registerRemoteSyncCommands(
+  context: vscode.ExtensionContext,
+  kvDataProvider: KVDataProvider,
+  remoteClient: CloudflareKVClient,
+  remoteDocumentProvider: KVRemoteDocumentProvider,
+  treeProvider: KVTreeProvider
+): void {
+  const remoteSync = new KVRemoteSync(kvDataProvider, remoteClient);
+  const syncNamespace = async (direction: SyncDirection, item: NamespaceItem) => {
+    if (!(item instanceof NamespaceItem)) {
+      return;
+    }
+    if (!(await remoteClient.isConfigured()) && !(await promptForCredentials(remoteClient))) {
+      return;
+    }
+    const verb = direction === 'pull' ? 'Pull' : 'Push';
+    const target = direction === 'pull'
+      ? `local ${item.namespace.binding}`
+      : `${item.namespace.binding} on Cloudflare (${item.namespace.id})`;
+
+    const searchKeys = treeProvider.getSearchSelection()
+      .find(selection => selection.worker.path === item.worker.path && selection.namespace.id === item.namespace.id)?.keys;
+    const choices: Array<vscode.QuickPickItem & { selection?: SyncSelection }> = [
+      { label: '$(list-flat) All Keys', selection: { kind: 'all' } },
+      { label: '$(triangle-right) Keys with Prefix…' },
+      ...(searchKeys
+        ? [{ label: '$(search) Search Results', description: `${searchKeys.size} keys`, selection: { kind: 'keys', keys: searchKeys } as SyncSelection }]
+        : [])
+    ];
+    const choice = await vscode.window.showQuickPick(choices, {
+      title: `${verb} ${item.namespace.binding}`,
+      placeHolder: direction === 'pull' ? 'Which remote keys to copy into local state' : 'Which local keys to copy to Cloudflare'
+    });
+    if (!choice) return;
+
+    let selection = choice.selection;
+    if (!selection) {
+      const prefix = await vscode.window.showInputBox({
+        title: `${verb} ${item.namespace.binding}`,
+        prompt: 'Key prefix',
+        validateInput: value => (value ? undefined : 'Enter a prefix')
+      });
+      if (!prefix) return;
+      selection = { kind: 'prefix', prefix };
+    }
+    const keySelection = selection;
+
+    let plan: SyncPlan;
+    try {
+      plan = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `${verb} ${item.namespace.binding}: dry run`, cancellable: true },
+        (progress, token) => remoteSync.plan(direction, item.worker.path, item.namespace.id, keySelection, progress, token)
+      );
+    } catch (error) {
+      if (!(error instanceof vscode.CancellationError)) {
+        vscode.window.showErrorMessage(`${verb} failed: ${error instanceof Error ? error.message : error}`);
+      }
+      return;
+    }
+
+    const skippedNote = plan.skipped.length > 0
+      ? ` ${plan.skipped.length} keys expiring within a minute were left out.`
+      : '';
+    if (plan.added.length + plan.changed.length + plan.deleted.length === 0) {
+      vscode.window.showInformationMessage(`Nothing to ${direction}: ${plan.unchanged} keys already match.${skippedNote}`);
+      return;
+    }
+
+    // The modal lists a sample of each kind of change; the full dry run opens as a diff document
+    const listKeys = (title: string, keys: string[]) => keys.length === 0
+      ? []
+      : [`${title}:`, ...keys.slice(0, 5).map(key => `  ${key}`), ...(keys.length > 5 ? [`  …and ${keys.length - 5} more`] : [])];
+    const detail = [
+      `${plan.added.length} added, ${plan.changed.length} changed, ${plan.deleted.length} deleted, ${plan.unchanged} unchanged.${skippedNote}`,
+      '',
+      ...listKeys('Added', plan.added),
+      ...listKeys('Changed', plan.changed),
+      ...listKeys('Deleted', plan.deleted)
+    ].join('\n');
+    const showDiff = 'Show Full Dry Run';
+    const withoutDeleting = `${verb} Without Deleting`;
+
+    let confirmation: string | undefined;
+    do {
+      confirmation = await vscode.window.showWarningMessage(
+        `${verb} ${plan.added.length + plan.changed.length} keys to ${target}?`,
+        { modal: true, detail },
+        verb,
+        ...(plan.deleted.length > 0 ? [withoutDeleting] : []),
+        showDiff
+      );
+      if (confirmation === showDiff) {
+        const content = [
+          `# ${verb} ${item.namespace.binding} → ${target}`,
+          ...plan.added.map(key => `+ ${key}`),
+          ...plan.changed.map(key => `! ${key}`),
+          ...plan.deleted.map(key => `- ${key}`),
+          ...plan.skipped.map(key => `# skipped (expiring): ${key}`)
+        ].join('\n');
+        const doc = await vscode.workspace.openTextDocument({ content, language: 'diff' });
+        await vscode.window.showTextDocument(doc, { preview: true });
+      }
+    } while (confirmation === showDiff);
+    if (confirmation !== verb && confirmation !== withoutDeleting) return;
+
+    const deleteMissing = confirmation === verb;
+    try {
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `${verb} ${item.namespace.binding}` },
+        async progress => {
+          let reported = 0;
+          await remoteSync.apply(plan, deleteMissing, written => {
+            progress.report({ message: `${written}/${plan.values.size}`, increment: ((written - reported) / plan.values.size) * 100 });
+            reported = written;
+          });
+        }
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`${verb} failed: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    if (direction === 'push') {
+      remoteDocumentProvider.refreshAll();
+    }
+    const deletedCount = deleteMissing ? plan.deleted.length : 0;
+    vscode.window.showInformationMessage(
+      `${direction === 'pull' ? 'Pulled' : 'Pushed'} ${plan.values.size} keys to ${target}` +
+      (deletedCount > 0 ? ` and deleted ${deletedCount}` : '')
+    );
+  };
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.pullFromRemote', (item: NamespaceItem) => syncNamespace('pull', item)),
+    vscode.commands.registerCommand('cloudflare-kv-explorer.pushToRemote', (item: NamespaceItem) => syncNamespace('push', item))
+  );
+}
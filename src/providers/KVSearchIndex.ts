@@ -0,0 +1,348 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as sqlite3 from '@vscode/sqlite3';
+import { KVDataProvider } from './KVDataProvider';
+import { SearchQuery, createMatcher, searchesValues } from './SearchQuery';
+import { decodeText } from './ContentSniffer';
+import { outputChannel, DEBUG } from '../extension';
+
+export interface IndexedNamespace {
+  workerPath: string;
+  namespaceId: string;
+}
+
+export interface ValueHit {
+  key: string;
+  preview: string;
+  // Lower is better (bm25); 0 when the index couldn't rank the match (regex, short terms)
+  rank: number;
+}
+
+// Large values are only indexed up to this many characters
+const MAX_INDEXED_LENGTH = 1024 * 1024;
+
+// Show a notification instead of a status bar spinner when this many blobs need reading
+const NOTIFY_THRESHOLD = 100;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS entries (
+  namespace TEXT NOT NULL,
+  key TEXT NOT NULL,
+  blob_id TEXT NOT NULL,
+  PRIMARY KEY (namespace, key)
+);
+CREATE INDEX IF NOT EXISTS entries_blob_idx ON entries(blob_id);
+CREATE TABLE IF NOT EXISTS blobs (
+  id INTEGER PRIMARY KEY,
+  blob_id TEXT NOT NULL UNIQUE
+);
+CREATE VIRTUAL TABLE IF NOT EXISTS blob_text USING fts5(value, tokenize = 'trigram');
+`;
+
+interface PendingSync {
+  namespace: IndexedNamespace;
+  dir: string;
+  upserts: Array<{ key: string; blobId: string }>;
+  removed: string[];
+  newBlobs: string[];
+}
+
+/**
+ * Full-text index of KV values, stored in the extension's global storage. Values are indexed
+ * once per blob ID: Miniflare never rewrites a blob in place, so a blob we've seen is never
+ * re-read, and syncing a namespace only reads the blobs written since the last search.
+ */
+export class KVSearchIndex implements vscode.Disposable {
+  private db: Promise<sqlite3.Database> | undefined;
+  // Namespace directory -> modification time of its database when it was last synced. Writes made
+  // by wrangler dev aren't always announced (autoRefresh off), so the time is checked as well
+  private synced = new Map<string, number>();
+  private queue: Promise<void> = Promise.resolve();
+  private changeListener: vscode.Disposable;
+
+  constructor(
+    private storagePath: string,
+    private kvDataProvider: KVDataProvider
+  ) {
+    this.changeListener = kvDataProvider.onDidChangeNamespace(change => {
+      this.synced.delete(this.getNamespaceDir(change));
+    });
+  }
+
+  /**
+   * Forgets which namespaces are up to date, so the next search checks every one of them again.
+   */
+  invalidate(): void {
+    this.synced.clear();
+  }
+
+  /**
+   * Brings the index up to date for the given namespaces, reporting progress while blobs are read.
+   */
+  ensureIndexed(namespaces: IndexedNamespace[]): Promise<void> {
+    // Serialise syncs so overlapping searches don't index the same blobs twice
+    const run = this.queue.then(() => this.syncAll(namespaces));
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Finds values matching the query, keyed by `<workerPath>:<namespaceId>` and then by key.
+   * Literal terms use the full-text index to narrow candidates; every candidate is checked
+   * against the query's matcher, so regex and short terms scan the indexed text instead.
+   */
+  async searchValues(
+    query: SearchQuery,
+    namespaces: IndexedNamespace[],
+    limit: number = 500
+  ): Promise<Map<string, Map<string, ValueHit>>> {
+    const results = new Map<string, Map<string, ValueHit>>();
+    if (!query.term || namespaces.length === 0 || !searchesValues(query)) {
+      return results;
+    }
+    const matcher = createMatcher(query);
+
+    // Several workers can share a namespace directory
+    const byDir = new Map<string, IndexedNamespace[]>();
+    for (const namespace of namespaces) {
+      const dir = this.getNamespaceDir(namespace);
+      byDir.set(dir, [...(byDir.get(dir) || []), namespace]);
+    }
+
+    const db = await this.getDatabase();
+    const dirs = [...byDir.keys()];
+    const placeholders = dirs.map(() => '?').join(', ');
+
+    // The trigram tokenizer needs at least three characters for MATCH
+    const ranked = query.matcher !== 'regex' && [...query.term].length >= 3;
+    const statement = db.prepare(
+      `SELECT e.namespace, e.key, t.value, ${ranked ? 'bm25(blob_text)' : '0'} AS rank
+        FROM blob_text t
+        JOIN blobs b ON b.id = t.rowid
+        JOIN entries e ON e.blob_id = b.blob_id
+        WHERE ${ranked ? 'blob_text MATCH ? AND' : ''} e.namespace IN (${placeholders})
+        ${ranked ? 'ORDER BY rank' : ''}`,
+      ranked ? [`"${query.term.replace(/"/g, '""')}"`, ...dirs] : dirs
+    );
+
+    let found = 0;
+    try {
+      while (found < limit) {
+        const row = await new Promise<{ namespace: string; key: string; value: string; rank: number } | undefined>(
+          (resolve, reject) => statement.get((err: Error | null, row: any) => (err ? reject(err) : resolve(row)))
+        );
+        if (!row) {
+          break;
+        }
+
+        const ranges = matcher(row.value);
+        if (!ranges) {
+          continue;
+        }
+        found++;
+
+        for (const namespace of byDir.get(row.namespace) || []) {
+          const cacheKey = `${namespace.workerPath}:${namespace.namespaceId}`;
+          if (!results.has(cacheKey)) {
+            results.set(cacheKey, new Map());
+          }
+          results.get(cacheKey)!.set(row.key, {
+            key: row.key,
+            preview: this.getPreview(row.value, ranges[0]),
+            rank: row.rank
+          });
+        }
+      }
+    } finally {
+      statement.finalize();
+    }
+
+    return results;
+  }
+
+  private async syncAll(namespaces: IndexedNamespace[]): Promise<void> {
+    const pending: Array<PendingSync & { modified: number }> = [];
+    const seen = new Set<string>();
+
+    for (const namespace of namespaces) {
+      const dir = this.getNamespaceDir(namespace);
+      if (seen.has(dir)) {
+        continue;
+      }
+      seen.add(dir);
+      // Taken before listing, so a write made while syncing is picked up next time
+      const modified = await this.getModified(namespace);
+      if (this.synced.get(dir) === modified) {
+        continue;
+      }
+      pending.push({ ...(await this.diffNamespace(namespace, dir)), modified });
+    }
+
+    const totalBlobs = pending.reduce((sum, item) => sum + item.newBlobs.length, 0);
+    if (pending.length === 0) {
+      return;
+    }
+
+    await vscode.window.withProgress(
+      {
+        location: totalBlobs >= NOTIFY_THRESHOLD ? vscode.ProgressLocation.Notification : vscode.ProgressLocation.Window,
+        title: 'Indexing KV values'
+      },
+      async progress => {
+        let done = 0;
+        for (const item of pending) {
+          await this.applySync(item, () => {
+            done++;
+            if (totalBlobs > 0 && done % 25 === 0) {
+              progress.report({ message: `${done}/${totalBlobs}`, increment: (25 / totalBlobs) * 100 });
+            }
+          });
+          this.synced.set(item.dir, item.modified);
+        }
+      }
+    );
+  }
+
+  // Latest modification time of the namespace's database and its WAL, 0 when it has none
+  private async getModified(namespace: IndexedNamespace): Promise<number> {
+    const resolution = await this.kvDataProvider.getNamespaceResolution(namespace.workerPath, namespace.namespaceId);
+    if (!resolution) {
+      return 0;
+    }
+    const times = await Promise.all(
+      [resolution.dbPath, `${resolution.dbPath}-wal`].map(file => fs.stat(file).then(stat => stat.mtimeMs, () => 0))
+    );
+    return Math.max(...times);
+  }
+
+  private async diffNamespace(namespace: IndexedNamespace, dir: string): Promise<PendingSync> {
+    const db = await this.getDatabase();
+    const data = await this.kvDataProvider.getKVData(namespace.workerPath, namespace.namespaceId);
+    const stored = await this.all<{ key: string; blobId: string }>(db,
+      'SELECT key, blob_id as blobId FROM entries WHERE namespace = ?', [dir]);
+
+    const storedByKey = new Map(stored.map(row => [row.key, row.blobId]));
+    const upserts: Array<{ key: string; blobId: string }> = [];
+    for (const entry of data.entries) {
+      if (storedByKey.get(entry.key) !== entry.blobId) {
+        upserts.push({ key: entry.key, blobId: entry.blobId });
+      }
+      storedByKey.delete(entry.key);
+    }
+
+    // Blobs already in the index are skipped when the sync is applied
+    const newBlobs = [...new Set(upserts.map(u => u.blobId))];
+
+    return { namespace, dir, upserts, removed: [...storedByKey.keys()], newBlobs };
+  }
+
+  private async applySync(item: PendingSync, onBlob: () => void): Promise<void> {
+    const db = await this.getDatabase();
+    if (DEBUG) outputChannel.appendLine(`[KVSearchIndex] Syncing ${item.dir}: ${item.upserts.length} changed, ${item.removed.length} removed, ${item.newBlobs.length} blobs to read`);
+
+    await this.run(db, 'BEGIN');
+    try {
+      for (const blobId of item.newBlobs) {
+        const exists = await this.get<{ id: number }>(db, 'SELECT id FROM blobs WHERE blob_id = ?', [blobId]);
+        if (!exists) {
+          const bytes = await this.kvDataProvider.readBlobBytes(item.namespace.workerPath, item.namespace.namespaceId, blobId);
+          // Binary values are tracked but have no searchable text
+          const value = bytes ? decodeText(bytes) : null;
+          const id = await this.insert(db, 'INSERT INTO blobs (blob_id) VALUES (?)', [blobId]);
+          await this.run(db, 'INSERT INTO blob_text (rowid, value) VALUES (?, ?)', [
+            id,
+            (value ?? '').slice(0, MAX_INDEXED_LENGTH)
+          ]);
+        }
+        onBlob();
+      }
+
+      for (const { key, blobId } of item.upserts) {
+        await this.run(db, 'INSERT OR REPLACE INTO entries (namespace, key, blob_id) VALUES (?, ?, ?)', [item.dir, key, blobId]);
+      }
+      for (const key of item.removed) {
+        await this.run(db, 'DELETE FROM entries WHERE namespace = ? AND key = ?', [item.dir, key]);
+      }
+
+      // Drop text for blobs no key points at anymore
+      if (item.upserts.length > 0 || item.removed.length > 0) {
+        await this.run(db,
+          'DELETE FROM blob_text WHERE rowid IN (SELECT id FROM blobs WHERE blob_id NOT IN (SELECT blob_id FROM entries))');
+        await this.run(db, 'DELETE FROM blobs WHERE blob_id NOT IN (SELECT blob_id FROM entries)');
+      }
+
+      await this.run(db, 'COMMIT');
+    } catch (error) {
+      await this.run(db, 'ROLLBACK').catch(() => {});
+      console.error(`[KVSearchIndex] Error indexing ${item.dir}:`, error);
+      throw error;
+    }
+  }
+
+  private getPreview(value: string, [matchStart, matchEnd]: [number, number]): string {
+    const start = Math.max(0, matchStart - 20);
+    const end = Math.min(value.length, matchEnd + 20);
+    let preview = value.substring(start, end).replace(/\s+/g, ' ');
+    if (start > 0) preview = '...' + preview;
+    if (end < value.length) preview = preview + '...';
+    return preview;
+  }
+
+  private getNamespaceDir(namespace: IndexedNamespace): string {
+    return path.join(this.kvDataProvider.getKVPath(namespace.workerPath), namespace.namespaceId);
+  }
+
+  private getDatabase(): Promise<sqlite3.Database> {
+    if (!this.db) {
+      this.db = (async () => {
+        await fs.mkdir(this.storagePath, { recursive: true });
+        const db = new sqlite3.Database(path.join(this.storagePath, 'search-index.sqlite'));
+        await new Promise<void>((resolve, reject) => {
+          db.exec(SCHEMA, (err: Error | null) => (err ? reject(err) : resolve()));
+        });
+        return db;
+      })();
+      // Allow a retry if opening failed
+      this.db.catch(() => {
+        this.db = undefined;
+      });
+    }
+    return this.db;
+  }
+
+  private run(db: sqlite3.Database, sql: string, params: any[] = []): Promise<void> {
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, (err: Error | null) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private insert(db: sqlite3.Database, sql: string, params: any[]): Promise<number> {
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, function (this: sqlite3.RunResult, err: Error | null) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  private get<T>(db: sqlite3.Database, sql: string, params: any[] = []): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      db.get(sql, params, (err: Error | null, row: T | undefined) => (err ? reject(err) : resolve(row)));
+    });
+  }
+
+  private all<T>(db: sqlite3.Database, sql: string, params: any[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      db.all(sql, params, (err: Error | null, rows: T[]) => (err ? reject(err) : resolve(rows)));
+    });
+  }
+
+  dispose(): void {
+    this.changeListener.dispose();
+    this.db?.then(db => db.close()).catch(() => {});
+  }
+}
@@ -0,0 +1,329 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { KVDataProvider, KVEntry, KVBulkValue } from './KVDataProvider';
+import { WorkerProject, KVNamespace, getNamespaceLabel } from './WorkerDiscovery';
+import { findWranglerDevProcesses } from './WranglerProcess';
+import { KVTreeProvider, NamespaceItem, WorkerItem } from './KVTreeProvider';
+
+const MANIFEST_FILE = 'snapshot.json';
+const ENTRIES_FILE = 'entries.json';
+
+export interface SnapshotManifest {
+  name: string;
+  createdAt: string;
+  worker: { name: string; path: string };
+  namespaces: Array<KVNamespace & { keyCount: number }>;
+}
+
+export interface Snapshot extends SnapshotManifest {
+  // Directory holding the manifest, plus `<namespace id>/entries.json` and `<namespace id>/blobs/`
+  dir: string;
+}
+
+/**
+ * Named copies of local KV state. A snapshot stores each namespace's `_mf_entries` rows and the
+ * blobs they point at; restoring swaps a namespace's rows in a single transaction, and undoes
+ * the namespaces already restored if a later one fails.
+ */
+export class KVSnapshotManager {
+  constructor(
+    private kvDataProvider: KVDataProvider,
+    // Used when cloudflareKVExplorer.snapshotDirectory isn't set
+    private defaultStoragePath: string
+  ) {}
+
+  getSnapshotDirectory(): string {
+    const configured = vscode.workspace.getConfiguration('cloudflareKVExplorer').get<string>('snapshotDirectory', '');
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (configured && (path.isAbsolute(configured) || workspaceFolder)) {
+      return path.resolve(workspaceFolder ?? '', configured);
+    }
+    return path.join(this.defaultStoragePath, 'kv-snapshots');
+  }
+
+  async list(): Promise<Snapshot[]> {
+    const root = this.getSnapshotDirectory();
+    let names: string[];
+    try {
+      names = await fs.readdir(root);
+    } catch {
+      return [];
+    }
+
+    const snapshots: Snapshot[] = [];
+    for (const name of names) {
+      const dir = path.join(root, name);
+      try {
+        const manifest = JSON.parse(await fs.readFile(path.join(dir, MANIFEST_FILE), 'utf-8')) as SnapshotManifest;
+        snapshots.push({ ...manifest, dir });
+      } catch {
+        // Not a snapshot (or one still being written)
+      }
+    }
+    return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async save(
+    name: string,
+    worker: WorkerProject,
+    namespaces: KVNamespace[],
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<Snapshot> {
+    const createdAt = new Date();
+    const slug = name.replace(/[^\w.-]+/g, '_').slice(0, 60);
+    const dir = path.join(this.getSnapshotDirectory(), `${createdAt.toISOString().replace(/[:.]/g, '-')}-${slug}`);
+    // Written under a temporary name so a failed save never shows up in the list
+    const partialDir = `${dir}.partial`;
+
+    const manifest: SnapshotManifest = {
+      name,
+      createdAt: createdAt.toISOString(),
+      worker: { name: worker.name, path: worker.path },
+      namespaces: []
+    };
+
+    try {
+      for (const namespace of namespaces) {
+        progress?.report({ message: namespace.binding });
+        const data = await this.kvDataProvider.getKVData(worker.path, namespace.id);
+        const blobsDir = path.join(partialDir, namespace.id, 'blobs');
+        await fs.mkdir(blobsDir, { recursive: true });
+
+        const entries: KVEntry[] = [];
+        for (const entry of data.entries) {
+          const bytes = await this.kvDataProvider.readBlobBytes(worker.path, namespace.id, entry.blobId);
+          if (!bytes) {
+            // Overwritten while we were reading; the new row wasn't part of our listing
+            continue;
+          }
+          await fs.writeFile(path.join(blobsDir, entry.blobId), bytes);
+          entries.push(entry);
+        }
+
+        await fs.writeFile(path.join(partialDir, namespace.id, ENTRIES_FILE), JSON.stringify(entries));
+        manifest.namespaces.push({ ...namespace, keyCount: entries.length });
+        progress?.report({ increment: 100 / namespaces.length });
+      }
+
+      await fs.writeFile(path.join(partialDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+      await fs.rename(partialDir, dir);
+    } catch (error) {
+      await fs.rm(partialDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    return { ...manifest, dir };
+  }
+
+  /**
+   * Makes each namespace contain exactly the snapshot's entries, with their expiration and metadata.
+   * Every value is read from the snapshot before anything is written, and if writing a namespace
+   * fails, the namespaces already restored are put back as they were, so it's all or nothing.
+   */
+  async restore(
+    snapshot: Snapshot,
+    workerPath: string,
+    namespaceIds: string[],
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<number> {
+    // Stage first, so a missing or unreadable blob fails before any namespace changes
+    const staged: Array<{ namespace: KVNamespace; values: KVBulkValue[] }> = [];
+    for (const namespaceId of namespaceIds) {
+      const namespace = snapshot.namespaces.find(ns => ns.id === namespaceId);
+      if (!namespace) {
+        continue;
+      }
+      progress?.report({ message: `Reading ${namespace.binding}` });
+
+      const entries = JSON.parse(
+        await fs.readFile(path.join(snapshot.dir, namespaceId, ENTRIES_FILE), 'utf-8')
+      ) as KVEntry[];
+      const values: KVBulkValue[] = [];
+      for (const entry of entries) {
+        values.push({
+          key: entry.key,
+          value: await fs.readFile(path.join(snapshot.dir, namespaceId, 'blobs', entry.blobId)),
+          options: { expiration: entry.expiration ?? undefined, metadata: entry.metadata ?? undefined }
+        });
+      }
+      staged.push({ namespace, values });
+    }
+
+    // Each namespace is replaced in one transaction; what it held before is kept until all are done
+    const replaced: Array<{ namespaceId: string; previous: KVBulkValue[] }> = [];
+    let restored = 0;
+    try {
+      for (const { namespace, values } of staged) {
+        progress?.report({ message: namespace.binding });
+        const previous = await this.readValues(workerPath, namespace.id);
+        await this.kvDataProvider.putValues(workerPath, namespace.id, values, { replaceAll: true });
+        replaced.push({ namespaceId: namespace.id, previous });
+        restored += values.length;
+        progress?.report({ increment: 100 / staged.length });
+      }
+    } catch (error) {
+      for (const { namespaceId, previous } of replaced.reverse()) {
+        await this.kvDataProvider.putValues(workerPath, namespaceId, previous, { replaceAll: true }).catch(rollbackError => {
+          console.error(`[KVSnapshotManager] Failed to roll back namespace ${namespaceId}:`, rollbackError);
+        });
+      }
+      throw error;
+    }
+    return restored;
+  }
+
+  // A namespace's current entries, in the form putValues() writes back
+  private async readValues(workerPath: string, namespaceId: string): Promise<KVBulkValue[]> {
+    const data = await this.kvDataProvider.getKVData(workerPath, namespaceId);
+    const values: KVBulkValue[] = [];
+    for (const entry of data.entries) {
+      const bytes = await this.kvDataProvider.readBlobBytes(workerPath, namespaceId, entry.blobId);
+      if (bytes) {
+        values.push({
+          key: entry.key,
+          value: bytes,
+          options: { expiration: entry.expiration ?? undefined, metadata: entry.metadata ?? undefined }
+        });
+      }
+    }
+    return values;
+  }
+
+  async delete(snapshot: Snapshot): Promise<void> {
+    await fs.rm(snapshot.dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Named snapshots of a worker's or namespace's local state: save one, or restore (and delete) saved ones.
+ */
+export function registerSnapshotCommands(
+  context: vscode.ExtensionContext,
+  kvDataProvider: KVDataProvider,
+  treeProvider: KVTreeProvider
+): void {
+  const snapshots = new KVSnapshotManager(kvDataProvider, (context.storageUri ?? context.globalStorageUri).fsPath);
+  const snapshotTarget = (item: WorkerItem | NamespaceItem) =>
+    item instanceof NamespaceItem
+      ? { worker: item.worker, namespaces: [item.namespace], label: item.namespace.binding }
+      : {
+        worker: item.worker,
+        // Environments sharing a namespace ID share its state, so it's saved once
+        namespaces: treeProvider.getVisibleNamespaces(item.worker)
+          .filter((ns, index, all) => all.findIndex(other => other.id === ns.id) === index),
+        label: item.worker.name
+      };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.saveSnapshot', async (item: WorkerItem | NamespaceItem) => {
+      if (!(item instanceof WorkerItem || item instanceof NamespaceItem)) {
+        return;
+      }
+      const { worker, namespaces, label } = snapshotTarget(item);
+
+      const name = await vscode.window.showInputBox({
+        title: `Save Snapshot of ${label}`,
+        prompt: 'Snapshot name',
+        placeHolder: 'e.g. seeded-checkout-flow',
+        validateInput: value => value.trim() ? undefined : 'Name is required'
+      });
+      if (!name) return;
+
+      try {
+        const snapshot = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Saving snapshot "${name.trim()}"` },
+          progress => snapshots.save(name.trim(), worker, namespaces, progress)
+        );
+        const keys = snapshot.namespaces.reduce((sum, ns) => sum + ns.keyCount, 0);
+        vscode.window.showInformationMessage(`Saved snapshot "${snapshot.name}" (${keys} keys)`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to save snapshot: ${error instanceof Error ? error.message : error}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('cloudflare-kv-explorer.restoreSnapshot', async (item: WorkerItem | NamespaceItem) => {
+      if (!(item instanceof WorkerItem || item instanceof NamespaceItem)) {
+        return;
+      }
+      const { worker, namespaces, label } = snapshotTarget(item);
+      const namespaceIds = new Set(namespaces.map(ns => ns.id));
+
+      const deleteButton = { iconPath: new vscode.ThemeIcon('trash'), tooltip: 'Delete Snapshot' };
+      const toItem = (snapshot: Snapshot) => {
+        const included = snapshot.namespaces.filter(ns => namespaceIds.has(ns.id));
+        return {
+          label: snapshot.name,
+          description: new Date(snapshot.createdAt).toLocaleString(),
+          detail: `${snapshot.worker.name}: ${included.map(ns => `${getNamespaceLabel(ns)} (${ns.keyCount} keys)`).join(', ')}`,
+          buttons: [deleteButton],
+          snapshot
+        };
+      };
+      const load = async () => (await snapshots.list())
+        .filter(snapshot => snapshot.namespaces.some(ns => namespaceIds.has(ns.id)))
+        .map(toItem);
+
+      const quickPick = vscode.window.createQuickPick<ReturnType<typeof toItem>>();
+      quickPick.title = `Restore Snapshot into ${label}`;
+      quickPick.placeholder = 'Select a snapshot to restore';
+      quickPick.matchOnDescription = true;
+      // Stay open while the delete confirmation is shown
+      quickPick.ignoreFocusOut = true;
+      quickPick.busy = true;
+      quickPick.show();
+      quickPick.items = await load();
+      quickPick.busy = false;
+      if (quickPick.items.length === 0) {
+        quickPick.placeholder = `No snapshots include ${label} yet`;
+      }
+
+      quickPick.onDidTriggerItemButton(async ({ item: picked }) => {
+        const confirm = await vscode.window.showWarningMessage(
+          `Delete snapshot "${picked.snapshot.name}"?`,
+          { modal: true },
+          'Delete'
+        );
+        if (confirm === 'Delete') {
+          await snapshots.delete(picked.snapshot);
+          quickPick.items = await load();
+        }
+      });
+
+      const snapshot = await new Promise<Snapshot | undefined>(resolve => {
+        quickPick.onDidAccept(() => {
+          resolve(quickPick.selectedItems[0]?.snapshot);
+          quickPick.hide();
+        });
+        quickPick.onDidHide(() => resolve(undefined));
+      });
+      quickPick.dispose();
+      if (!snapshot) return;
+
+      const restoring = snapshot.namespaces.filter(ns => namespaceIds.has(ns.id));
+      const running = await findWranglerDevProcesses();
+      const detail = [
+        `Keys not in the snapshot will be deleted from ${restoring.map(ns => ns.binding).join(', ')}.`,
+        ...(running.length > 0
+          ? ['', '`wrangler dev` appears to be running. It may keep serving cached values or overwrite the restored state; consider stopping it first.']
+          : [])
+      ].join('\n');
+      const confirm = await vscode.window.showWarningMessage(
+        `Restore snapshot "${snapshot.name}" into ${label}?`,
+        { modal: true, detail },
+        'Restore'
+      );
+      if (confirm !== 'Restore') return;
+
+      try {
+        const restored = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Restoring snapshot "${snapshot.name}"` },
+          progress => snapshots.restore(snapshot, worker.path, restoring.map(ns => ns.id), progress)
+        );
+        vscode.window.showInformationMessage(`Restored ${restored} keys from "${snapshot.name}"`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to restore snapshot: ${error instanceof Error ? error.message : error}`);
+      }
+    })
+  );
+}
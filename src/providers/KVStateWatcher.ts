@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { KVDataProvider, KV_NAMESPACE_OBJECT_DIR } from './KVDataProvider';
+import { WorkerProject } from './WorkerDiscovery';
+import { outputChannel, DEBUG } from '../extension';
+
+/**
+ * Watches each worker's local KV state (SQLite databases, their WAL files and blobs) and
+ * reports changes per namespace through `KVDataProvider.notifyExternalChange`.
+ */
+export class KVStateWatcher implements vscode.Disposable {
+  private watchers = new Map<string, { kvPath: string; watcher: vscode.FileSystemWatcher }>(); // worker path -> watcher
+  private workers = new Map<string, WorkerProject>();
+  private pending = new Map<string, Set<string> | null>(); // worker path -> namespace IDs (null = all)
+  private debounceTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private kvDataProvider: KVDataProvider,
+    private debounceMs: number = 300
+  ) {}
+
+  watch(workers: WorkerProject[]): void {
+    const enabled = vscode.workspace
+      .getConfiguration('cloudflareKVExplorer')
+      .get<boolean>('autoRefresh', true);
+
+    const wanted = new Map(enabled ? workers.map(w => [w.path, this.kvDataProvider.getKVPath(w.path)]) : []);
+
+    // Stop watching workers that disappeared or now persist somewhere else
+    for (const [workerPath, { kvPath, watcher }] of this.watchers) {
+      if (wanted.get(workerPath) !== kvPath) {
+        watcher.dispose();
+        this.watchers.delete(workerPath);
+        this.workers.delete(workerPath);
+      }
+    }
+
+    if (!enabled) {
+      return;
+    }
+
+    for (const worker of workers) {
+      this.workers.set(worker.path, worker);
+      if (this.watchers.has(worker.path)) {
+        continue;
+      }
+
+      const kvPath = this.kvDataProvider.getKVPath(worker.path);
+      if (DEBUG) outputChannel.appendLine(`[KVStateWatcher] Watching ${kvPath}`);
+
+      // Works for state outside the workspace too, and needs nothing beyond VS Code itself
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(kvPath, '**/*'));
+      const onEvent = (uri: vscode.Uri) => this.onFileChanged(worker.path, kvPath, uri.fsPath);
+      watcher.onDidChange(onEvent);
+      watcher.onDidCreate(onEvent);
+      watcher.onDidDelete(onEvent);
+      this.watchers.set(worker.path, { kvPath, watcher });
+    }
+  }
+
+  private onFileChanged(workerPath: string, kvPath: string, filePath: string): void {
+    const [first, second] = path.relative(kvPath, filePath).split(path.sep);
+
+    const worker = this.workers.get(workerPath);
+    let namespaceId: string | undefined;
+    if (first === KV_NAMESPACE_OBJECT_DIR) {
+      namespaceId = second
+        ? this.kvDataProvider.getNamespaceForDatabase(
+            path.join(kvPath, first, second),
+            worker?.kvNamespaces.map(ns => ns.id)
+          )
+        : undefined;
+    } else if (first) {
+      namespaceId = first;
+    }
+
+    if (namespaceId === undefined || !worker?.kvNamespaces.some(ns => ns.id === namespaceId)) {
+      // Database we haven't resolved yet (or unknown directory), refresh the whole worker
+      this.pending.set(workerPath, null);
+    } else if (this.pending.get(workerPath) !== null) {
+      const namespaces = this.pending.get(workerPath) ?? new Set<string>();
+      namespaces.add(namespaceId);
+      this.pending.set(workerPath, namespaces);
+    }
+
+    // wrangler dev touches the database, WAL and blob for a single put, so batch them
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  private flush(): void {
+    this.debounceTimer = undefined;
+    const pending = this.pending;
+    this.pending = new Map();
+
+    for (const [workerPath, namespaces] of pending) {
+      const worker = this.workers.get(workerPath);
+      if (!worker) {
+        continue;
+      }
+
+      const namespaceIds = namespaces ?? new Set(worker.kvNamespaces.map(ns => ns.id));
+      for (const namespaceId of namespaceIds) {
+        if (DEBUG) outputChannel.appendLine(`[KVStateWatcher] Local state changed: ${worker.name} / ${namespaceId}`);
+        this.kvDataProvider.notifyExternalChange({ workerPath, namespaceId });
+      }
+    }
+  }
+
+  dispose(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    for (const { watcher } of this.watchers.values()) {
+      watcher.dispose();
+    }
+    this.watchers.clear();
+    this.workers.clear();
+    this.pending.clear();
+  }
+}
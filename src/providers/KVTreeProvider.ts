@@ -1,140 +1,852 @@
 import * as vscode from 'vscode';
-import { WorkerDiscovery } from './WorkerDiscovery';
-import { KVDataProvider } from './KVDataProvider';
-import { createKVUri } from './KVDocumentProvider';
+import {
+  WorkerDiscovery,
+  WorkerProject,
+  KVNamespace,
+  R2Bucket,
+  D1Database,
+  DurableObjectBinding,
+  getNamespaceLabel
+} from './WorkerDiscovery';
+import { KVDataProvider, KVEntry, KVPage, LocalKVState, MIN_TTL, getExpirationTime, isExpired } from './KVDataProvider';
+import { KVStateWatcher } from './KVStateWatcher';
+import { KVSearchIndex, ValueHit } from './KVSearchIndex';
+import { createKVMetadataUri, parseKVUri } from './KVDocumentProvider';
+import { sniffContent, formatByteSize, SNIFF_LENGTH } from './ContentSniffer';
+import { findWranglerDevProcesses } from './WranglerProcess';
+import { CloudflareKVClient, RemoteKey, promptForCredentials } from './CloudflareKVClient';
+import { KVRemoteDocumentProvider, REMOTE_SCHEME, createRemoteKVUri, parseRemoteUri } from './KVRemoteDocumentProvider';
+import { R2DataProvider, R2Listing, R2MultipartUpload, R2Object, getContentType } from './R2DataProvider';
+import { R2DocumentProvider, R2_SCHEME, createR2Uri, parseR2Uri } from './R2DocumentProvider';
+import { D1DataProvider } from './D1DataProvider';
+import { SqliteReader, SqlTable } from './SqliteReader';
+import { SqlTablePanel, SqlSource } from './SqlTablePanel';
+import { DurableObjectDataProvider, DurableObjectInstance } from './DurableObjectDataProvider';
+import { DurableObjectDocumentProvider, DURABLE_OBJECT_SCHEME, parseDurableObjectUri } from './DurableObjectDocumentProvider';
+import {
+  SearchQuery,
+  MatchRanges,
+  DEFAULT_SEARCH_QUERY,
+  parseSearchQuery,
+  describeSearchQuery,
+  createMatcher,
+  searchesKeys,
+  searchesValues,
+  searchesMetadata
+} from './SearchQuery';
 import * as path from 'path';
 import { outputChannel, DEBUG } from '../extension';
 
-interface WorkerProject {
-  name: string;
-  path: string;
-  kvNamespaces: Array<{ binding: string; id: string; }>;
-}
+type TreeItem =
+  | WorkerItem
+  | EnvironmentItem
+  | UnboundNamespacesItem
+  | NamespaceItem
+  | OrphanDatabaseItem
+  | OrphanKeyItem
+  | FolderItem
+  | KeyItem
+  | LoadMoreItem
+  | R2BucketItem
+  | R2FolderItem
+  | R2ObjectItem
+  | R2LoadMoreItem
+  | R2UploadsItem
+  | R2UploadItem
+  | D1DatabaseItem
+  | SqlTableItem
+  | DurableObjectClassItem
+  | DurableObjectItem
+  | DurableObjectStorageItem
+  | DurableObjectKeyItem
+  | DurableObjectAlarmItem;
+
+// Environment picker value for bindings declared outside any `env` section
+export const TOP_LEVEL_ENVIRONMENT = '';
+
+// Path of the stand-in worker that lists every namespace in the connected account
+const REMOTE_ACCOUNT_PATH = 'cloudflare-account:';
+
+// R2 keys are grouped into folders at this delimiter, as the R2 dashboard does
+const R2_DELIMITER = '/';
 
-interface KVEntry {
-  key: string;
-  blobId: string;
-  expiration?: number;
-  metadata?: string;
+// A worker's bindings of each kind, as listed under it or under one of its environments
+interface WorkerBindings {
+  namespaces: KVNamespace[];
+  buckets: R2Bucket[];
+  databases: D1Database[];
+  durableObjects: DurableObjectBinding[];
 }
 
-type TreeItem = WorkerItem | NamespaceItem | KeyItem;
+interface SearchMatch {
+  worker: WorkerProject;
+  namespace: KVNamespace;
+  entry: KVEntry;
+  // Matched parts of the key, null when the key didn't match
+  keyRanges: MatchRanges | null;
+  valueHit?: ValueHit;
+  metadataMatch: boolean;
+  // 0 = key contains the term, 1 = other key match, 2 = value match, 3 = metadata match
+  score: number;
+}
 
-class WorkerItem extends vscode.TreeItem {
+export class WorkerItem extends vscode.TreeItem {
   constructor(
     public readonly worker: WorkerProject,
-    public readonly collapsibleState: vscode.TreeItemCollapsibleState
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly remote: boolean = false
   ) {
     super(worker.name, collapsibleState);
-    this.contextValue = 'worker';
-    this.iconPath = new vscode.ThemeIcon('folder-library');
-    this.tooltip = `${this.worker.name}\n${this.worker.path}`;
+    this.contextValue = remote ? 'remoteWorker' : 'worker';
+    this.iconPath = new vscode.ThemeIcon(remote ? 'cloud' : 'folder-library');
     this.description = `${this.worker.kvNamespaces.length} namespaces`;
+    if (remote) {
+      // Remote namespaces are looked up by their production IDs; there's no local state involved
+      this.tooltip = worker.path.startsWith(REMOTE_ACCOUNT_PATH)
+        ? `All KV namespaces in account ${worker.path.slice(REMOTE_ACCOUNT_PATH.length)}`
+        : `${this.worker.name}\n${this.worker.path}\nRemote namespaces by ID`;
+      return;
+    }
+    if (worker.r2Buckets.length > 0) {
+      this.description += ` · ${worker.r2Buckets.length} buckets`;
+    }
+    if (worker.d1Databases.length > 0) {
+      this.description += ` · ${worker.d1Databases.length} databases`;
+    }
+    if (worker.durableObjects.length > 0) {
+      this.description += ` · ${worker.durableObjects.length} Durable Objects`;
+    }
+    const statePath = path.relative(worker.path, worker.statePath) || '.';
+    const stateLabel = {
+      settings: 'from settings',
+      default: 'default',
+      detected: 'auto-detected'
+    }[worker.stateSource];
+    this.tooltip = `${this.worker.name}\n${this.worker.path}\nState: ${worker.statePath} (${stateLabel})`;
+    // Point out workers whose state lives somewhere other than .wrangler/state
+    if (worker.stateSource !== 'default') {
+      this.description += ` · ${statePath}`;
+    }
   }
 }
 
-class NamespaceItem extends vscode.TreeItem {
+// Bindings of one Wrangler environment (or the top level), shown when a worker declares environments
+class EnvironmentItem extends vscode.TreeItem {
   constructor(
     public readonly worker: WorkerProject,
-    public readonly namespace: { binding: string; id: string },
+    public readonly env: string | undefined,
+    public readonly bindings: WorkerBindings,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState
+  ) {
+    super(env ?? 'Top level', collapsibleState);
+    this.contextValue = 'environment';
+    this.iconPath = new vscode.ThemeIcon('layers');
+    this.description = `${bindings.namespaces.length} namespaces`;
+    if (bindings.buckets.length > 0) {
+      this.description += ` · ${bindings.buckets.length} buckets`;
+    }
+    if (bindings.databases.length > 0) {
+      this.description += ` · ${bindings.databases.length} databases`;
+    }
+    if (bindings.durableObjects.length > 0) {
+      this.description += ` · ${bindings.durableObjects.length} Durable Objects`;
+    }
+    this.tooltip = env !== undefined
+      ? `Environment: ${env}\n[env.${env}] bindings, used by wrangler dev --env ${env}`
+      : 'Top-level bindings, used by wrangler dev without --env';
+  }
+}
+
+export class NamespaceItem extends vscode.TreeItem {
+  constructor(
+    public readonly worker: WorkerProject,
+    public readonly namespace: KVNamespace,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-    public readonly matchCount?: number
+    public readonly matchCount?: number,
+    public readonly keyCount?: number | null,
+    public readonly remote: boolean = false
   ) {
     super(namespace.binding, collapsibleState);
-    this.contextValue = 'namespace';
+    this.contextValue = remote ? 'remoteNamespace' : 'namespace';
     this.iconPath = new vscode.ThemeIcon('database');
-    this.tooltip = `Namespace: ${namespace.binding}\nID: ${namespace.id}`;
+    this.tooltip = describeNamespace(namespace).join('\n');
     
-    // Show match count when searching
+    // Show match count when searching, otherwise the size of the namespace
     if (matchCount !== undefined && matchCount > 0) {
       this.description = `${matchCount} matches`;
+    } else if (keyCount !== undefined && keyCount !== null) {
+      this.description = `${keyCount.toLocaleString()} keys`;
     }
   }
 }
 
-class KeyItem extends vscode.TreeItem {
+// Namespace directories and databases in local state that no binding refers to
+class UnboundNamespacesItem extends vscode.TreeItem {
+  constructor(
+    public readonly worker: WorkerProject,
+    public readonly state: LocalKVState
+  ) {
+    super('Unbound namespaces', vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'unboundNamespaces';
+    this.iconPath = new vscode.ThemeIcon('debug-disconnect');
+    this.description = `${state.namespaceIds.length + state.orphanDatabases.length}`;
+    this.tooltip = 'Local state no binding in the Wrangler config refers to, such as renamed bindings, removed environments or ad-hoc IDs';
+  }
+}
+
+// A namespace directory with no binding, browsable like any other namespace
+class UnboundNamespaceItem extends NamespaceItem {
+  constructor(worker: WorkerProject, namespaceId: string, keyCount: number | null) {
+    super(worker, { binding: namespaceId, id: namespaceId }, vscode.TreeItemCollapsibleState.Collapsed, undefined, keyCount);
+    this.contextValue = 'unboundNamespace';
+    this.iconPath = new vscode.ThemeIcon('database', new vscode.ThemeColor('disabledForeground'));
+    this.tooltip = `Unbound namespace\nID: ${namespaceId}`;
+  }
+}
+
+// A namespace database whose directory, and with it every value, is gone; its keys can still be listed
+class OrphanDatabaseItem extends vscode.TreeItem {
+  constructor(
+    public readonly worker: WorkerProject,
+    public readonly dbPath: string
+  ) {
+    super(path.basename(dbPath), vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'orphanDatabase';
+    this.iconPath = new vscode.ThemeIcon('warning');
+    this.description = 'no namespace directory';
+    this.tooltip = `${dbPath}\nA KV database with no namespace directory; its values are gone`;
+  }
+}
+
+class LoadMoreItem extends vscode.TreeItem {
+  constructor(
+    public readonly worker: WorkerProject,
+    public readonly namespace: { binding: string; id: string },
+    loaded: number,
+    total?: number | null
+  ) {
+    super('Load more…', vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'loadMore';
+    this.iconPath = new vscode.ThemeIcon('ellipsis');
+    this.description = total ? `${loaded.toLocaleString()} of ${total.toLocaleString()} loaded` : `${loaded.toLocaleString()} loaded`;
+    this.command = {
+      command: 'cloudflare-kv-explorer.loadMoreKeys',
+      title: 'Load More Keys',
+      arguments: [this]
+    };
+  }
+}
+
+class FolderItem extends vscode.TreeItem {
+  constructor(
+    public readonly worker: WorkerProject,
+    public readonly namespace: { binding: string; id: string },
+    public readonly prefix: string,
+    label: string,
+    public readonly keyCount: number,
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly remote: boolean = false,
+    // Counted from the pages loaded so far, with more keys still to load in the namespace
+    partial: boolean = false
+  ) {
+    super(label, collapsibleState);
+    this.contextValue = remote ? 'remoteFolder' : 'folder';
+    this.iconPath = vscode.ThemeIcon.Folder;
+    this.tooltip = partial
+      ? `Prefix: ${prefix}\n${keyCount} keys loaded so far; use "Load more…" on the namespace to list the rest`
+      : `Prefix: ${prefix}\n${keyCount} keys`;
+    this.description = partial ? `${keyCount}+` : `${keyCount}`;
+  }
+}
+
+export class KeyItem extends vscode.TreeItem {
+  expired = false;
+
   constructor(
     public readonly worker: WorkerProject,
     public readonly namespaceId: string,
-    public readonly entry: KVEntry
+    public readonly entry: KVEntry,
+    // Inside a folder only the part after the folder's prefix is shown
+    label: string | vscode.TreeItemLabel = entry.key,
+    public readonly remote: boolean = false
   ) {
-    super(entry.key, vscode.TreeItemCollapsibleState.None);
-    this.contextValue = 'key';
-    
+    super(label, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = remote ? 'remoteKey' : 'key';
+    this.renderExpiration();
+
+    // Set command to open in editor
+    this.command = remote
+      ? {
+        command: 'cloudflare-kv-explorer.openRemoteKey',
+        title: 'Open Remote KV Entry',
+        arguments: [this.namespaceId, this.entry.key]
+      }
+      : {
+        command: 'cloudflare-kv-explorer.openKey',
+        title: 'Open KV Entry',
+        arguments: [this.worker, this.namespaceId, this.entry.key]
+      };
+  }
+
+  /**
+   * Icon, tooltip and countdown for the entry's expiration. Called again by the provider's timer,
+   * since they depend on the current time.
+   */
+  renderExpiration(): void {
+    // Expired entries stay in the database until Miniflare purges them, but reads no longer see them
+    const expiresAt = this.entry.expiration ? getExpirationTime(this.entry.expiration) : undefined;
+    const expired = isExpired(this.entry);
+    this.expired = expired;
+    const color = expired ? new vscode.ThemeColor('disabledForeground') : undefined;
+
     // Choose icon based on key pattern
-    if (entry.key.endsWith('.json') || entry.key.includes('config')) {
-      this.iconPath = new vscode.ThemeIcon('json');
-    } else if (entry.key.includes('snapshot')) {
-      this.iconPath = new vscode.ThemeIcon('history');
+    if (this.entry.key.endsWith('.json') || this.entry.key.includes('config')) {
+      this.iconPath = new vscode.ThemeIcon('json', color);
+    } else if (this.entry.key.includes('snapshot')) {
+      this.iconPath = new vscode.ThemeIcon('history', color);
     } else {
-      this.iconPath = new vscode.ThemeIcon('key');
+      this.iconPath = new vscode.ThemeIcon('key', color);
     }
 
     // Set tooltip
-    const tooltipLines = [`Key: ${entry.key}`];
-    if (entry.metadata) {
-      tooltipLines.push('Has metadata');
+    const tooltipLines = [`Key: ${this.entry.key}`];
+    if (this.entry.metadata) {
+      tooltipLines.push('Metadata:', ...summarizeMetadata(this.entry.metadata));
     }
-    if (entry.expiration) {
-      tooltipLines.push(`Expires: ${new Date(entry.expiration).toLocaleString()}`);
+    if (expiresAt !== undefined) {
+      tooltipLines.push(`${expired ? 'Expired' : 'Expires'}: ${new Date(expiresAt).toLocaleString()}`);
     }
     this.tooltip = tooltipLines.join('\n');
 
     // Add badges
     const badges = [];
-    if (entry.metadata) badges.push('META');
-    if (entry.expiration) badges.push('TTL');
+    if (this.entry.metadata) badges.push('META');
+    if (expiresAt !== undefined) {
+      const relative = formatRelativeTime(expiresAt - Date.now());
+      badges.push(expired ? `expired ${relative} ago` : `expires in ${relative}`);
+    }
     if (badges.length > 0) {
-      this.description = badges.join(' ');
+      this.description = badges.join(' · ');
     }
+  }
+}
 
-    // Set command to open in editor
+// A key listed from an orphaned database; there's no value to open
+class OrphanKeyItem extends KeyItem {
+  constructor(worker: WorkerProject, dbPath: string, entry: KVEntry) {
+    super(worker, path.basename(dbPath, '.sqlite'), entry);
+    this.contextValue = 'orphanKey';
+    this.command = undefined;
+  }
+
+  renderExpiration(): void {
+    super.renderExpiration();
+    this.tooltip = `${this.tooltip}\nValue unavailable: the namespace directory is gone`;
+  }
+}
+
+class R2BucketItem extends vscode.TreeItem {
+  constructor(
+    public readonly worker: WorkerProject,
+    public readonly bucket: R2Bucket,
+    // The name the bucket's local state is kept under
+    public readonly bucketName: string,
+    objectCount: number | null
+  ) {
+    super(bucket.binding, vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'r2Bucket';
+    this.iconPath = new vscode.ThemeIcon('package');
+    this.description = objectCount !== null ? `${objectCount.toLocaleString()} objects` : 'no local state';
+    const lines = [`Bucket: ${bucket.binding}`];
+    if (bucket.env !== undefined) {
+      lines.push(`Environment: ${bucket.env}`);
+    }
+    lines.push(`Bucket name: ${bucket.bucketName}`);
+    if (bucket.previewBucketName) {
+      lines.push(`Preview bucket name: ${bucket.previewBucketName}`);
+    }
+    if (bucket.jurisdiction) {
+      lines.push(`Jurisdiction: ${bucket.jurisdiction}`);
+    }
+    if (bucketName !== bucket.bucketName) {
+      lines.push(`Local state: ${bucketName}`);
+    }
+    this.tooltip = lines.join('\n');
+  }
+}
+
+class R2FolderItem extends vscode.TreeItem {
+  constructor(
+    public readonly worker: WorkerProject,
+    public readonly bucketName: string,
+    public readonly prefix: string,
+    label: string
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'r2Folder';
+    this.iconPath = vscode.ThemeIcon.Folder;
+    this.tooltip = `Prefix: ${prefix}`;
+  }
+}
+
+class R2ObjectItem extends vscode.TreeItem {
+  constructor(
+    public readonly worker: WorkerProject,
+    public readonly bucketName: string,
+    public readonly object: R2Object,
+    prefix: string
+  ) {
+    super(object.key.slice(prefix.length), vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'r2Object';
+    const contentType = getContentType(object) ?? '';
+    if (contentType.startsWith('image/')) {
+      this.iconPath = new vscode.ThemeIcon('file-media');
+    } else if (contentType === 'application/pdf') {
+      this.iconPath = new vscode.ThemeIcon('file-pdf');
+    } else if (contentType.includes('json')) {
+      this.iconPath = new vscode.ThemeIcon('json');
+    } else {
+      this.iconPath = new vscode.ThemeIcon('file');
+    }
+    this.description = formatByteSize(object.size);
+
+    const multipart = object.blobId === null;
+    const lines = [
+      `Key: ${object.key}`,
+      `Size: ${formatByteSize(object.size)}${multipart ? ' (multipart upload)' : ''}`,
+      `ETag: ${object.etag}`,
+      `Uploaded: ${new Date(object.uploaded).toLocaleString()}`
+    ];
+    const httpMetadata = Object.entries(object.httpMetadata);
+    if (httpMetadata.length > 0) {
+      lines.push('HTTP metadata:', ...httpMetadata.map(([name, value]) => `  ${name}: ${typeof value === 'string' ? value : JSON.stringify(value)}`));
+    }
+    const customMetadata = Object.entries(object.customMetadata);
+    if (customMetadata.length > 0) {
+      lines.push('Custom metadata:', ...customMetadata.map(([name, value]) => `  ${name}: ${value}`));
+    }
+    this.tooltip = lines.join('\n');
+
+    this.command = {
+      command: 'cloudflare-kv-explorer.openR2Object',
+      title: 'Open R2 Object',
+      arguments: [this.worker, this.bucketName, this.object.key]
+    };
+  }
+}
+
+class R2LoadMoreItem extends vscode.TreeItem {
+  constructor(
+    public readonly worker: WorkerProject,
+    public readonly bucketName: string,
+    public readonly prefix: string,
+    loaded: number
+  ) {
+    super('Load more…', vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'loadMore';
+    this.iconPath = new vscode.ThemeIcon('ellipsis');
+    this.description = `${loaded.toLocaleString()} loaded`;
+    this.command = {
+      command: 'cloudflare-kv-explorer.loadMoreObjects',
+      title: 'Load More Objects',
+      arguments: [this]
+    };
+  }
+}
+
+// Multipart uploads that were started but never completed or aborted
+class R2UploadsItem extends vscode.TreeItem {
+  constructor(public readonly uploads: R2MultipartUpload[]) {
+    super('Incomplete multipart uploads', vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'r2Uploads';
+    this.iconPath = new vscode.ThemeIcon('cloud-upload');
+    this.description = `${uploads.length}`;
+    this.tooltip = 'Uploads still in progress; their parts belong to no object until the upload is completed';
+  }
+}
+
+class R2UploadItem extends vscode.TreeItem {
+  constructor(public readonly upload: R2MultipartUpload) {
+    super(upload.key, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'r2Upload';
+    this.iconPath = new vscode.ThemeIcon('watch');
+    this.description = `${upload.parts} parts · ${formatByteSize(upload.size)}`;
+    this.tooltip = `Key: ${upload.key}\nUpload ID: ${upload.uploadId}`;
+  }
+}
+
+class D1DatabaseItem extends vscode.TreeItem {
+  constructor(
+    public readonly worker: WorkerProject,
+    public readonly database: D1Database,
+    // The ID the database's local state is kept under
+    public readonly databaseId: string | undefined,
+    // Null when the database has no local state yet
+    public readonly dbPath: string | null,
+    tableCount: number | null
+  ) {
+    super(database.binding, dbPath ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+    this.contextValue = dbPath ? 'd1Database' : 'd1DatabaseMissing';
+    this.iconPath = new vscode.ThemeIcon('server');
+    this.description = !dbPath ? 'no local state' : tableCount !== null ? `${tableCount} tables` : undefined;
+    const lines = [`D1 database: ${database.binding}`];
+    if (database.env !== undefined) {
+      lines.push(`Environment: ${database.env}`);
+    }
+    if (database.databaseName) {
+      lines.push(`Database name: ${database.databaseName}`);
+    }
+    if (database.databaseId) {
+      lines.push(`Database ID: ${database.databaseId}`);
+    }
+    if (database.previewDatabaseId) {
+      lines.push(`Preview database ID: ${database.previewDatabaseId}`);
+    }
+    lines.push(dbPath ? `Database: ${path.basename(dbPath)}` : 'Database: not found in local state');
+    this.tooltip = lines.join('\n');
+  }
+
+  getSqlSource(): SqlSource {
+    return { dbPath: this.dbPath!, label: getNamespaceLabel(this.database) };
+  }
+}
+
+// A table or view in a D1 database or a Durable Object's SQL storage
+class SqlTableItem extends vscode.TreeItem {
+  constructor(
+    public readonly source: SqlSource,
+    public readonly table: SqlTable
+  ) {
+    super(table.name, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = table.type === 'view' ? 'sqlView' : 'sqlTable';
+    this.iconPath = new vscode.ThemeIcon(table.type === 'view' ? 'eye' : 'table');
+    this.description = table.rowCount !== null ? `${table.rowCount.toLocaleString()} rows` : undefined;
+    this.tooltip = `${table.type === 'view' ? 'View' : 'Table'}: ${table.name}`;
+    this.command = {
+      command: 'cloudflare-kv-explorer.openSqlTable',
+      title: 'Open Table',
+      arguments: [this]
+    };
+  }
+}
+
+class DurableObjectClassItem extends vscode.TreeItem {
+  constructor(
+    public readonly worker: WorkerProject,
+    public readonly binding: DurableObjectBinding,
+    // Null when no object of the class has been persisted yet
+    public readonly classDir: string | null,
+    objectCount: number
+  ) {
+    super(binding.binding, classDir ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'durableObjectClass';
+    this.iconPath = new vscode.ThemeIcon('symbol-class');
+    this.description = classDir ? `${binding.className} · ${objectCount} objects` : `${binding.className} · no local state`;
+    const lines = [`Durable Object: ${binding.binding}`];
+    if (binding.env !== undefined) {
+      lines.push(`Environment: ${binding.env}`);
+    }
+    lines.push(`Class: ${binding.className}`, `Script: ${binding.scriptName}${binding.external ? ' (another worker)' : ''}`);
+    lines.push(classDir ? `Storage: ${classDir}` : `Storage: do/${binding.scriptName}-${binding.className} not found in local state`);
+    this.tooltip = lines.join('\n');
+  }
+}
+
+class DurableObjectItem extends vscode.TreeItem {
+  constructor(
+    public readonly worker: WorkerProject,
+    public readonly binding: DurableObjectBinding,
+    public readonly object: DurableObjectInstance,
+    public readonly alarm: number | null
+  ) {
+    // IDs are long; the first characters are enough to tell objects apart
+    super(`${object.id.slice(0, 16)}…`, vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'durableObject';
+    this.iconPath = new vscode.ThemeIcon('symbol-object');
+    const modified = `written ${formatRelativeTime(Date.now() - object.modified)} ago`;
+    this.description = alarm !== null ? `${modified} · alarm ${describeAlarm(alarm)}` : modified;
+    const lines = [`Object ID: ${object.id}`, `Class: ${binding.className}`, `Last written: ${new Date(object.modified).toLocaleString()}`];
+    if (alarm !== null) {
+      lines.push(`Alarm: ${new Date(alarm).toLocaleString()} (${describeAlarm(alarm)})`);
+    }
+    this.tooltip = lines.join('\n');
+  }
+
+  getSqlSource(): SqlSource {
+    return { dbPath: this.object.dbPath, label: `${this.binding.className} ${this.object.id.slice(0, 8)}` };
+  }
+}
+
+// Keys written through the storage API (ctx.storage.get/put)
+class DurableObjectStorageItem extends vscode.TreeItem {
+  constructor(
+    public readonly object: DurableObjectInstance,
+    public readonly keys: string[]
+  ) {
+    super('Storage', vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'durableObjectStorage';
+    this.iconPath = new vscode.ThemeIcon('database');
+    this.description = `${keys.length.toLocaleString()} keys`;
+    this.tooltip = 'Keys written with ctx.storage.put()';
+  }
+}
+
+class DurableObjectKeyItem extends vscode.TreeItem {
+  constructor(
+    public readonly object: DurableObjectInstance,
+    public readonly key: string
+  ) {
+    super(key, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'durableObjectKey';
+    this.iconPath = new vscode.ThemeIcon('key');
     this.command = {
-      command: 'cloudflare-kv-explorer.openKey',
-      title: 'Open KV Entry',
-      arguments: [this.worker, this.namespaceId, this.entry.key]
+      command: 'cloudflare-kv-explorer.openDurableObjectValue',
+      title: 'Open Storage Value',
+      arguments: [this.object.dbPath, this.key]
     };
   }
 }
 
+class DurableObjectAlarmItem extends vscode.TreeItem {
+  constructor(alarm: number) {
+    super('Alarm', vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'durableObjectAlarm';
+    this.iconPath = new vscode.ThemeIcon('bell');
+    this.description = `${describeAlarm(alarm)} · ${new Date(alarm).toLocaleString()}`;
+    this.tooltip = `Scheduled with ctx.storage.setAlarm() for ${new Date(alarm).toISOString()}`;
+  }
+}
+
+function describeNamespace(namespace: KVNamespace): string[] {
+  const lines = [`Namespace: ${namespace.binding}`];
+  if (namespace.env !== undefined) {
+    lines.push(`Environment: ${namespace.env}`);
+  }
+  lines.push(`ID: ${namespace.id}`);
+  if (namespace.previewId) {
+    lines.push(`Preview ID: ${namespace.previewId}`);
+  }
+  return lines;
+}
+
+// Remote keys carry no blob; expiration is already in seconds, which getExpirationTime accepts
+function toRemoteEntry(remoteKey: RemoteKey): KVEntry {
+  return {
+    key: remoteKey.name,
+    blobId: '',
+    expiration: remoteKey.expiration,
+    metadata: remoteKey.metadata !== undefined && remoteKey.metadata !== null ? JSON.stringify(remoteKey.metadata) : undefined
+  };
+}
+
+// "in 4m", or "due 2m ago" for an alarm that hasn't run (e.g. while wrangler dev is stopped)
+function describeAlarm(alarm: number): string {
+  const remaining = alarm - Date.now();
+  return remaining >= 0 ? `in ${formatRelativeTime(remaining)}` : `due ${formatRelativeTime(remaining)} ago`;
+}
+
+// Coarse duration for countdowns, e.g. "45s", "4m", "3h", "2d"
+function formatRelativeTime(ms: number): string {
+  const seconds = Math.round(Math.abs(ms) / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+// A few lines describing stored metadata: top-level fields of an object, otherwise the JSON itself
+function summarizeMetadata(metadata: string, maxFields: number = 5): string[] {
+  const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(metadata);
+  } catch {
+    return [`  ${truncate(metadata, 80)}`];
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return [`  ${truncate(metadata, 80)}`];
+  }
+
+  const fields = Object.entries(parsed);
+  const lines = fields
+    .slice(0, maxFields)
+    .map(([name, value]) => `  ${name}: ${truncate(JSON.stringify(value), 60)}`);
+  if (fields.length > maxFields) {
+    lines.push(`  …and ${fields.length - maxFields} more`);
+  }
+  return lines.length > 0 ? lines : ['  {}'];
+}
+
 export class KVTreeProvider implements vscode.TreeDataProvider<TreeItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<TreeItem | undefined | null | void> = 
     new vscode.EventEmitter<TreeItem | undefined | null | void>();
   readonly onDidChangeTreeData: vscode.Event<TreeItem | undefined | null | void> = 
     this._onDidChangeTreeData.event;
 
+  private _onDidChangeWorkers = new vscode.EventEmitter<WorkerProject[]>();
+  readonly onDidChangeWorkers = this._onDidChangeWorkers.event;
+
   private workers: WorkerProject[] = [];
-  private kvEntries = new Map<string, KVEntry[]>();
+  private kvEntries = new Map<string, KVPage>(); // loaded pages, cursor set while more keys follow
+  private loadedCounts = new Map<string, number>(); // keys to reload after a namespace refresh
+  private namespaceItems = new Map<string, NamespaceItem>(); // cache key -> last rendered item
+  private countdownItems = new Map<string, KeyItem[]>(); // cache key:prefix -> rendered keys that expire
+  private r2Listings = new Map<string, R2Listing>(); // worker path:bucket:prefix -> loaded objects and folders
+  private r2Items = new Map<string, R2BucketItem | R2FolderItem>(); // same key -> last rendered item
   private searchTerm: string = '';
+  private searchQuery: SearchQuery | undefined;
   private searchResults = new Map<string, Set<string>>(); // namespaceId -> matching keys
+  // Matching entries in key order, kept apart from the paged listing, which may not have reached them
+  private searchEntries = new Map<string, KVEntry[]>();
+  // Browsing namespaces through the REST API rather than local state
+  private remote = false;
+  private remoteAccount: WorkerProject | undefined;
+  // Environment chosen in the status bar picker; undefined shows every environment grouped
+  private environment: string | undefined;
 
   // Getter for workers to ensure they're always available
   async getWorkers(): Promise<WorkerProject[]> {
     if (this.workers.length === 0) {
-      this.workers = await this.workerDiscovery.findWorkers();
+      await this.loadWorkers();
     }
     return this.workers;
   }
 
+  private async loadWorkers(): Promise<void> {
+    this.workers = await this.workerDiscovery.findWorkers();
+    this._onDidChangeWorkers.fire(this.workers);
+  }
+
+  private dataChangeListener: vscode.Disposable;
+  private countdownTimer: NodeJS.Timeout;
+
   constructor(
     private workerDiscovery: WorkerDiscovery,
-    private kvDataProvider: KVDataProvider
-  ) {}
+    private kvDataProvider: KVDataProvider,
+    private searchIndex: KVSearchIndex,
+    private remoteClient: CloudflareKVClient,
+    private r2DataProvider: R2DataProvider,
+    private d1DataProvider: D1DataProvider,
+    private sqliteReader: SqliteReader,
+    private durableObjectDataProvider: DurableObjectDataProvider
+  ) {
+    // Writes from the editor or wrangler dev invalidate only their namespace
+    this.dataChangeListener = kvDataProvider.onDidChangeNamespace(change => {
+      if (!this.remote) {
+        this.refreshNamespace(change.workerPath, change.namespaceId);
+      }
+    });
+
+    // Re-render shown keys that expire so their countdowns (and expired state) stay current
+    this.countdownTimer = setInterval(() => this.refreshCountdowns(), 30 * 1000);
+  }
+
+  private refreshCountdowns(): void {
+    const hideExpired = !this.showExpiredKeys();
+    for (const [listing, items] of this.countdownItems) {
+      for (const item of items) {
+        const wasExpired = item.expired;
+        item.renderExpiration();
+        if (hideExpired && item.expired && !wasExpired) {
+          // The key has to leave the listing, which only re-rendering its namespace does
+          this.countdownItems.delete(listing);
+          this.rerenderNamespace(`${item.worker.path}:${item.namespaceId}`);
+          break;
+        }
+        this._onDidChangeTreeData.fire(item);
+      }
+    }
+  }
+
+  private showExpiredKeys(): boolean {
+    return vscode.workspace.getConfiguration('cloudflareKVExplorer').get<boolean>('showExpiredKeys', true);
+  }
 
   refresh(): void {
     this._onDidChangeTreeData.fire();
   }
 
+  isRemote(): boolean {
+    return this.remote;
+  }
+
+  /**
+   * Switches between local state and remote namespaces. Loaded pages belong to one side only,
+   * so they're dropped along with any search.
+   */
+  setRemote(remote: boolean): void {
+    this.remote = remote;
+    this.remoteAccount = undefined;
+    this.kvEntries.clear();
+    this.loadedCounts.clear();
+    this.namespaceItems.clear();
+    this.countdownItems.clear();
+    this.searchTerm = '';
+    this.searchQuery = undefined;
+    this.searchResults.clear();
+    this.searchEntries.clear();
+    vscode.commands.executeCommand('setContext', 'cloudflareKVExplorer.searching', false);
+    vscode.commands.executeCommand('setContext', 'cloudflareKVExplorer.remote', remote);
+    this._onDidChangeTreeData.fire();
+  }
+
+  refreshNamespace(workerPath: string, namespaceId: string): void {
+    const cacheKey = `${workerPath}:${namespaceId}`;
+    // Reload as many keys as were visible so "Load more…" progress isn't lost
+    const loaded = this.kvEntries.get(cacheKey)?.entries.length;
+    if (loaded) {
+      this.loadedCounts.set(cacheKey, loaded);
+    }
+    this.kvEntries.delete(cacheKey);
+
+    this.rerenderNamespace(cacheKey);
+  }
+
+  // Refreshing just the namespace node keeps the rest of the tree's expansion state
+  private rerenderNamespace(cacheKey: string): void {
+    const item = this.namespaceItems.get(cacheKey);
+    if (item && !this.searchTerm) {
+      this._onDidChangeTreeData.fire(item);
+    } else {
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  setWorkers(workers: WorkerProject[]): void {
+    this.workers = workers;
+    this.kvEntries.clear();
+    this.r2Listings.clear();
+    this.r2Items.clear();
+    this.loadedCounts.clear();
+    this.namespaceItems.clear();
+    this.countdownItems.clear();
+    this._onDidChangeWorkers.fire(this.workers);
+    this._onDidChangeTreeData.fire();
+  }
+
   async fullRefresh(): Promise<void> {
     // Clear all caches and reset state
     this.workers = [];
+    this.remoteAccount = undefined;
     this.kvEntries.clear();
+    this.loadedCounts.clear();
+    this.namespaceItems.clear();
+    this.countdownItems.clear();
+    this.r2Listings.clear();
+    this.r2Items.clear();
     this.searchTerm = '';
+    this.searchQuery = undefined;
     this.searchResults.clear();
+    this.searchEntries.clear();
+    this.searchIndex.invalidate();
     vscode.commands.executeCommand('setContext', 'cloudflareKVExplorer.searching', false);
     
     // Force re-discovery of workers
-    this.workers = await this.workerDiscovery.findWorkers();
+    await this.loadWorkers();
     this._onDidChangeTreeData.fire();
   }
 
@@ -142,19 +854,58 @@ export class KVTreeProvider implements vscode.TreeDataProvider<TreeItem> {
     return element;
   }
 
+  async resolveTreeItem(item: vscode.TreeItem, element: TreeItem): Promise<vscode.TreeItem> {
+    if (this.remote) {
+      // Nothing local to look at, and a request per hover would be wasteful
+      return item;
+    }
+    if (element instanceof NamespaceItem) {
+      // Resolving the database can touch the disk, so only do it when the tooltip is shown
+      const resolution = await this.kvDataProvider.getNamespaceResolution(element.worker.path, element.namespace.id);
+      const lines = element instanceof UnboundNamespaceItem
+        ? ['Unbound namespace', `ID: ${element.namespace.id}`]
+        : describeNamespace(element.namespace);
+      if (resolution) {
+        const method = {
+          derived: 'derived from namespace ID',
+          legacy: 'legacy per-namespace database',
+          sampled: 'matched by sampling blobs (fallback)'
+        }[resolution.method];
+        lines.push(`Database: ${path.basename(resolution.dbPath)}`, `Resolved: ${method}`);
+      } else {
+        lines.push('Database: not found in local state');
+      }
+      item.tooltip = lines.join('\n');
+    } else if (element instanceof KeyItem && !(element instanceof OrphanKeyItem)) {
+      // Sniffing reads the start of the value, so it's also left until the tooltip is shown
+      const value = await this.kvDataProvider
+        .getValuePrefix(element.worker.path, element.namespaceId, element.entry.key, SNIFF_LENGTH)
+        .catch(() => null);
+      if (value) {
+        const content = sniffContent(value.bytes);
+        item.tooltip = `${element.tooltip}\nType: ${content.description}, ${formatByteSize(value.size)}`;
+      }
+    }
+    return item;
+  }
+
   async getChildren(element?: TreeItem): Promise<TreeItem[]> {
+    if (!element && this.remote) {
+      return this.getRemoteRoots();
+    }
+
     if (!element) {
       // Root level - show workers
       // Only re-fetch if we don't have workers cached
       if (this.workers.length === 0) {
-        this.workers = await this.workerDiscovery.findWorkers();
+        await this.loadWorkers();
       }
       
       // If searching AND we have search results, filter by them
       if (this.searchTerm && this.searchResults.size > 0) {
         return this.workers
           .filter(worker => 
-            worker.kvNamespaces.some(ns => {
+            this.getVisibleNamespaces(worker).some(ns => {
               const key = `${worker.path}:${ns.id}`;
               return this.searchResults.has(key) && this.searchResults.get(key)!.size > 0;
             })
@@ -167,220 +918,987 @@ export class KVTreeProvider implements vscode.TreeDataProvider<TreeItem> {
           );
       }
       
-      // Show all workers if not searching or no results
+      // Show all workers if not searching or no results. Workers without bindings still
+      // expand, as their state may hold unbound namespaces
       return this.workers.map(worker => 
-        new WorkerItem(
-          worker, 
-          worker.kvNamespaces.length > 0 
-            ? vscode.TreeItemCollapsibleState.Collapsed 
-            : vscode.TreeItemCollapsibleState.None
-        )
+        new WorkerItem(worker, vscode.TreeItemCollapsibleState.Collapsed)
       );
     }
 
     if (element instanceof WorkerItem) {
-      // Show namespaces for this worker
-      if (this.searchTerm && this.searchResults.size > 0) {
-        // Only show namespaces with search results
-        return element.worker.kvNamespaces
-          .filter(ns => {
-            const key = `${element.worker.path}:${ns.id}`;
-            return this.searchResults.has(key) && this.searchResults.get(key)!.size > 0;
-          })
-          .map(ns => {
-            const key = `${element.worker.path}:${ns.id}`;
-            const matchCount = this.searchResults.get(key)?.size || 0;
-            return new NamespaceItem(
-              element.worker,
-              ns,
-              vscode.TreeItemCollapsibleState.Expanded, // Auto-expand when searching
-              matchCount
-            );
-          });
+      // Group by environment unless the environment picker narrows the tree to one. R2, D1 and
+      // Durable Objects have no remote browsing or search, so they only show in local state outside a search
+      const localOnly = this.remote || !!this.searchTerm;
+      const bindings: WorkerBindings = {
+        namespaces: this.getVisibleNamespaces(element.worker),
+        buckets: localOnly ? [] : this.getVisibleBindings(element.worker.r2Buckets),
+        databases: localOnly ? [] : this.getVisibleBindings(element.worker.d1Databases),
+        durableObjects: localOnly ? [] : this.getVisibleBindings(element.worker.durableObjects)
+      };
+      const children: TreeItem[] =
+        this.environment === undefined &&
+        [...bindings.namespaces, ...bindings.buckets, ...bindings.databases, ...bindings.durableObjects]
+          .some(binding => binding.env !== undefined)
+          ? this.getEnvironmentItems(element.worker, bindings)
+          : await this.getBindingItems(element.worker, bindings);
+
+      if (!this.remote && !this.searchTerm) {
+        const unbound = await this.getUnboundState(element.worker);
+        if (unbound.namespaceIds.length + unbound.orphanDatabases.length > 0) {
+          children.push(new UnboundNamespacesItem(element.worker, unbound));
+        }
       }
-      
-      return element.worker.kvNamespaces.map(ns => 
-        new NamespaceItem(
-          element.worker,
-          ns,
-          vscode.TreeItemCollapsibleState.Collapsed
-        )
-      );
+      return children;
     }
 
-    if (element instanceof NamespaceItem) {
-      // Show keys for this namespace
-      const cacheKey = `${element.worker.path}:${element.namespace.id}`;
-      
-      // Check cache first
-      if (!this.kvEntries.has(cacheKey)) {
-        try {
-          const data = await this.kvDataProvider.getKVData(
-            element.worker.path,
-            element.namespace.id
-          );
-          this.kvEntries.set(cacheKey, data.entries);
-        } catch (error) {
-          console.error('Error fetching KV data:', error);
-          this.kvEntries.set(cacheKey, []);
-        }
+    if (element instanceof EnvironmentItem) {
+      return this.getBindingItems(element.worker, element.bindings);
+    }
+
+    if (element instanceof D1DatabaseItem) {
+      if (!element.dbPath) {
+        return [];
       }
+      const tables = await this.sqliteReader.listTables(element.dbPath).catch(() => []);
+      return tables.map(table => new SqlTableItem(element.getSqlSource(), table));
+    }
 
-      const entries = this.kvEntries.get(cacheKey) || [];
-      
-      // Filter by search results if actively searching with results
-      if (this.searchTerm && this.searchResults.size > 0 && this.searchResults.has(cacheKey)) {
-        const matchingKeys = this.searchResults.get(cacheKey)!;
-        return entries
-          .filter(entry => matchingKeys.has(entry.key))
-          .map(entry => 
-            new KeyItem(element.worker, element.namespace.id, entry)
-          );
+    if (element instanceof DurableObjectClassItem) {
+      if (!element.classDir) {
+        return [];
       }
-      
-      return entries.map(entry => 
-        new KeyItem(element.worker, element.namespace.id, entry)
-      );
+      const objects = await this.durableObjectDataProvider.listObjects(element.classDir);
+      const alarms = await Promise.all(objects.map(object => this.durableObjectDataProvider.getAlarm(object)));
+      return objects.map((object, index) => new DurableObjectItem(element.worker, element.binding, object, alarms[index]));
     }
 
-    return [];
-  }
+    if (element instanceof DurableObjectItem) {
+      // Storage API keys and the alarm first, then tables created through ctx.storage.sql
+      const children: TreeItem[] = [];
+      const keys = await this.durableObjectDataProvider.listStorageKeys(element.object.dbPath);
+      if (keys.length > 0) {
+        children.push(new DurableObjectStorageItem(element.object, keys));
+      }
+      if (element.alarm !== null) {
+        children.push(new DurableObjectAlarmItem(element.alarm));
+      }
+      const tables = await this.sqliteReader.listTables(element.object.dbPath).catch(() => []);
+      children.push(...tables.map(table => new SqlTableItem(element.getSqlSource(), table)));
+      return children;
+    }
 
-  async performSearch(searchTerm: string, showNotification: boolean = true): Promise<number | undefined> {
-    this.searchTerm = searchTerm.toLowerCase();
-    this.searchResults.clear();
-    
-    if (!searchTerm) {
-      vscode.commands.executeCommand('setContext', 'cloudflareKVExplorer.searching', false);
-      this.refresh();
-      return;
+    if (element instanceof DurableObjectStorageItem) {
+      return element.keys.map(key => new DurableObjectKeyItem(element.object, key));
     }
-    
-    vscode.commands.executeCommand('setContext', 'cloudflareKVExplorer.searching', true);
 
-    // Search through all workers and namespaces
-    const workers = await this.workerDiscovery.findWorkers();
-    let totalMatches = 0;
-    
-    for (const worker of workers) {
-      for (const namespace of worker.kvNamespaces) {
-        const cacheKey = `${worker.path}:${namespace.id}`;
-        const matchingKeys = new Set<string>();
-        
+    if (element instanceof R2BucketItem || element instanceof R2FolderItem) {
+      const prefix = element instanceof R2FolderItem ? element.prefix : '';
+      this.r2Items.set(`${element.worker.path}:${element.bucketName}:${prefix}`, element);
+      const children: TreeItem[] = await this.getR2Items(element.worker, element.bucketName, prefix);
+      if (element instanceof R2BucketItem) {
+        const uploads = await this.r2DataProvider.listMultipartUploads(element.worker.path, element.bucketName).catch(() => []);
+        if (uploads.length > 0) {
+          children.push(new R2UploadsItem(uploads));
+        }
+      }
+      return children;
+    }
+
+    if (element instanceof R2UploadsItem) {
+      return element.uploads.map(upload => new R2UploadItem(upload));
+    }
+
+    if (element instanceof UnboundNamespacesItem) {
+      const { worker, state } = element;
+      const counts = await Promise.all(
+        state.namespaceIds.map(id => this.kvDataProvider.countEntries(worker.path, id).catch(() => null))
+      );
+      return [
+        ...state.namespaceIds.map((id, index) => {
+          const item = new UnboundNamespaceItem(worker, id, counts[index]);
+          this.namespaceItems.set(`${worker.path}:${id}`, item);
+          return item;
+        }),
+        ...state.orphanDatabases.map(dbPath => new OrphanDatabaseItem(worker, dbPath))
+      ];
+    }
+
+    if (element instanceof OrphanDatabaseItem) {
+      let entries = await this.kvDataProvider.getDatabaseEntries(element.dbPath).catch(error => {
+        console.error(`[KVTreeProvider] Failed to list ${element.dbPath}:`, error);
+        return [];
+      });
+      if (!this.showExpiredKeys()) {
+        const now = Date.now();
+        entries = entries.filter(entry => !isExpired(entry, now));
+      }
+      return entries.map(entry => new OrphanKeyItem(element.worker, element.dbPath, entry));
+    }
+
+    if (element instanceof NamespaceItem || element instanceof FolderItem) {
+      // Show keys (and folders) for this namespace
+      const cacheKey = `${element.worker.path}:${element.namespace.id}`;
+      
+      // Check cache first, otherwise load the first page
+      if (!this.kvEntries.has(cacheKey)) {
         try {
-          // Get all entries for this namespace
-          let entries: KVEntry[];
-          if (this.kvEntries.has(cacheKey)) {
-            entries = this.kvEntries.get(cacheKey)!;
-          } else {
-            const data = await this.kvDataProvider.getKVData(worker.path, namespace.id);
-            this.kvEntries.set(cacheKey, data.entries);
-            entries = data.entries;
-          }
-          
-          // Search in keys and optionally in values
-          for (const entry of entries) {
-            // Fuzzy match on key
-            if (this.fuzzyMatch(entry.key.toLowerCase(), this.searchTerm)) {
-              matchingKeys.add(entry.key);
-              totalMatches++;
-            } else {
-              // Also check value content if key doesn't match
-              try {
-                const value = await this.kvDataProvider.getValue(worker.path, namespace.id, entry.key);
-                if (value && value.toLowerCase().includes(this.searchTerm)) {
-                  matchingKeys.add(entry.key);
-                  totalMatches++;
-                }
-              } catch {
-                // Ignore errors when searching values
-              }
-            }
-          }
+          const page = await this.listPage(
+            element.worker,
+            element.namespace.id,
+            Math.max(this.getPageSize(), this.loadedCounts.get(cacheKey) ?? 0)
+          );
+          this.loadedCounts.delete(cacheKey);
+          this.kvEntries.set(cacheKey, page);
         } catch (error) {
-          console.error(`Error searching namespace ${namespace.id}:`, error);
+          console.error('Error fetching KV data:', error);
+          if (this.remote) {
+            vscode.window.showErrorMessage(
+              `Failed to list keys in ${element.namespace.binding}: ${error instanceof Error ? error.message : error}`
+            );
+          }
+          this.kvEntries.set(cacheKey, { entries: [] });
         }
-        
-        if (matchingKeys.size > 0) {
-          this.searchResults.set(cacheKey, matchingKeys);
+      }
+
+      const page = this.kvEntries.get(cacheKey)!;
+      // While searching, only the matches are listed, all of them at once
+      const matches = this.searchTerm ? this.searchEntries.get(cacheKey) : undefined;
+      let entries = matches ?? page.entries;
+
+      if (!this.showExpiredKeys()) {
+        const now = Date.now();
+        entries = entries.filter(entry => !isExpired(entry, now));
+      }
+      
+      const prefix = element instanceof FolderItem ? element.prefix : '';
+      const partial = !matches && page.cursor !== undefined;
+      const children = this.groupEntries(element.worker, element.namespace, entries, prefix, partial);
+      this.countdownItems.set(
+        `${cacheKey}:${prefix}`,
+        children.filter((child): child is KeyItem => child instanceof KeyItem && !!child.entry.expiration)
+      );
+
+      if (element instanceof NamespaceItem && !matches && page.cursor !== undefined) {
+        children.push(new LoadMoreItem(element.worker, element.namespace, page.entries.length, element.keyCount));
+      }
+      return children;
+    }
+
+    return [];
+  }
+
+  async loadMore(item: LoadMoreItem): Promise<void> {
+    const cacheKey = `${item.worker.path}:${item.namespace.id}`;
+    const page = this.kvEntries.get(cacheKey);
+    if (!page || page.cursor === undefined) {
+      return;
+    }
+
+    try {
+      const next = await this.listPage(item.worker, item.namespace.id, this.getPageSize(), page.cursor);
+      this.kvEntries.set(cacheKey, { entries: [...page.entries, ...next.entries], cursor: next.cursor });
+    } catch (error) {
+      console.error('Error fetching KV data:', error);
+      return;
+    }
+
+    const namespaceItem = this.namespaceItems.get(cacheKey);
+    this._onDidChangeTreeData.fire(namespaceItem);
+  }
+
+  private async getNamespaceItems(worker: WorkerProject, namespaces: KVNamespace[]): Promise<NamespaceItem[]> {
+    if (this.remote) {
+      // Counting remote keys means listing them all, so remote namespaces show no size
+      return namespaces.map(ns => {
+        const item = new NamespaceItem(worker, ns, vscode.TreeItemCollapsibleState.Collapsed, undefined, undefined, true);
+        this.namespaceItems.set(`${worker.path}:${ns.id}`, item);
+        return item;
+      });
+    }
+
+    if (this.searchTerm && this.searchResults.size > 0) {
+      // Only show namespaces with search results
+      return namespaces
+        .filter(ns => (this.searchResults.get(`${worker.path}:${ns.id}`)?.size ?? 0) > 0)
+        .map(ns => new NamespaceItem(
+          worker,
+          ns,
+          vscode.TreeItemCollapsibleState.Expanded, // Auto-expand when searching
+          this.searchResults.get(`${worker.path}:${ns.id}`)!.size
+        ));
+    }
+
+    // COUNT(*) is cheap, so show namespace sizes before anything is expanded
+    const counts = await Promise.all(
+      namespaces.map(ns => this.kvDataProvider.countEntries(worker.path, ns.id).catch(() => null))
+    );
+
+    return namespaces.map((ns, index) => {
+      const item = new NamespaceItem(worker, ns, vscode.TreeItemCollapsibleState.Collapsed, undefined, counts[index]);
+      this.namespaceItems.set(`${worker.path}:${ns.id}`, item);
+      return item;
+    });
+  }
+
+  /**
+   * Namespaces in the worker's local state that no binding uses. Workers can persist to the same
+   * state directory, so bindings of every worker sharing it count.
+   */
+  private async getUnboundState(worker: WorkerProject): Promise<LocalKVState> {
+    const boundIds = new Set(
+      this.workers
+        .filter(other => other.statePath === worker.statePath)
+        .flatMap(other => other.kvNamespaces.flatMap(ns => (ns.previewId ? [ns.id, ns.previewId] : [ns.id])))
+    );
+    const state = await this.kvDataProvider.scanLocalState(worker.path, [...boundIds]);
+    return {
+      namespaceIds: state.namespaceIds.filter(id => !boundIds.has(id)),
+      orphanDatabases: state.orphanDatabases
+    };
+  }
+
+  // Top-level bindings first, then environments in config order
+  private getEnvironmentItems(worker: WorkerProject, bindings: WorkerBindings): EnvironmentItem[] {
+    const searching = !this.remote && this.searchTerm && this.searchResults.size > 0;
+    const envs = [undefined, ...worker.environments];
+    return envs
+      .map(env => ({
+        env,
+        bindings: {
+          namespaces: bindings.namespaces.filter(ns => ns.env === env),
+          buckets: bindings.buckets.filter(bucket => bucket.env === env),
+          databases: bindings.databases.filter(db => db.env === env),
+          durableObjects: bindings.durableObjects.filter(binding => binding.env === env)
         }
+      }))
+      .filter(group => Object.values(group.bindings).some(list => list.length > 0))
+      .filter(group => !searching || group.bindings.namespaces.some(ns => this.searchResults.has(`${worker.path}:${ns.id}`)))
+      .map(group => new EnvironmentItem(
+        worker,
+        group.env,
+        group.bindings,
+        searching ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+      ));
+  }
+
+  // Namespaces, then buckets, databases and Durable Objects
+  private async getBindingItems(worker: WorkerProject, bindings: WorkerBindings): Promise<TreeItem[]> {
+    return [
+      ...await this.getNamespaceItems(worker, bindings.namespaces),
+      ...await this.getBucketItems(worker, bindings.buckets),
+      ...await this.getDatabaseItems(worker, bindings.databases),
+      ...await this.getDurableObjectClassItems(worker, bindings.durableObjects)
+    ];
+  }
+
+  /**
+   * The worker's bindings in the environment chosen with the environment picker, or all of them.
+   */
+  getVisibleNamespaces(worker: WorkerProject): KVNamespace[] {
+    if (this.environment === undefined || worker.path.startsWith(REMOTE_ACCOUNT_PATH)) {
+      return worker.kvNamespaces;
+    }
+    return worker.kvNamespaces.filter(ns => (ns.env ?? TOP_LEVEL_ENVIRONMENT) === this.environment);
+  }
+
+  // R2, D1 or Durable Object bindings in the environment chosen with the environment picker, or all of them
+  private getVisibleBindings<T extends { env?: string }>(bindings: T[]): T[] {
+    if (this.environment === undefined) {
+      return bindings;
+    }
+    return bindings.filter(binding => (binding.env ?? TOP_LEVEL_ENVIRONMENT) === this.environment);
+  }
+
+  private async getBucketItems(worker: WorkerProject, buckets: R2Bucket[]): Promise<R2BucketItem[]> {
+    return Promise.all(buckets.map(async bucket => {
+      const bucketName = await this.r2DataProvider.getLocalBucketName(worker.path, bucket);
+      const count = await this.r2DataProvider.countObjects(worker.path, bucketName).catch(() => null);
+      return new R2BucketItem(worker, bucket, bucketName, count);
+    }));
+  }
+
+  private async getDatabaseItems(worker: WorkerProject, databases: D1Database[]): Promise<D1DatabaseItem[]> {
+    return Promise.all(databases.map(async database => {
+      const databaseId = await this.d1DataProvider.getLocalDatabaseId(worker.path, database);
+      const dbPath = databaseId ? await this.d1DataProvider.findDatabase(worker.path, databaseId) : null;
+      const tables = dbPath ? await this.sqliteReader.listTables(dbPath, false).catch(() => null) : null;
+      return new D1DatabaseItem(worker, database, databaseId, dbPath, tables?.length ?? null);
+    }));
+  }
+
+  private async getDurableObjectClassItems(worker: WorkerProject, bindings: DurableObjectBinding[]): Promise<DurableObjectClassItem[]> {
+    return Promise.all(bindings.map(async binding => {
+      const classDir = await this.durableObjectDataProvider.findClassDirectory(worker.path, binding);
+      const objects = classDir ? await this.durableObjectDataProvider.listObjects(classDir) : [];
+      return new DurableObjectClassItem(worker, binding, classDir, objects.length);
+    }));
+  }
+
+  // Folders, then objects, one level below `prefix`; the first page is listed on first expansion
+  private async getR2Items(worker: WorkerProject, bucketName: string, prefix: string): Promise<TreeItem[]> {
+    const cacheKey = `${worker.path}:${bucketName}:${prefix}`;
+    if (!this.r2Listings.has(cacheKey)) {
+      try {
+        this.r2Listings.set(cacheKey, await this.r2DataProvider.listObjects(worker.path, bucketName, {
+          prefix,
+          delimiter: R2_DELIMITER,
+          limit: this.getPageSize()
+        }));
+      } catch (error) {
+        console.error('Error listing R2 objects:', error);
+        this.r2Listings.set(cacheKey, { objects: [], prefixes: [] });
       }
     }
-    
-    this.refresh();
+
+    const listing = this.r2Listings.get(cacheKey)!;
+    const children: TreeItem[] = [
+      ...listing.prefixes.map(folder => new R2FolderItem(worker, bucketName, folder, folder.slice(prefix.length))),
+      ...listing.objects.map(object => new R2ObjectItem(worker, bucketName, object, prefix))
+    ];
+    if (listing.cursor !== undefined) {
+      children.push(new R2LoadMoreItem(worker, bucketName, prefix, listing.objects.length));
+    }
+    return children;
+  }
+
+  async loadMoreObjects(item: R2LoadMoreItem): Promise<void> {
+    const cacheKey = `${item.worker.path}:${item.bucketName}:${item.prefix}`;
+    const listing = this.r2Listings.get(cacheKey);
+    if (!listing || listing.cursor === undefined) {
+      return;
+    }
+
+    try {
+      const next = await this.r2DataProvider.listObjects(item.worker.path, item.bucketName, {
+        prefix: item.prefix,
+        delimiter: R2_DELIMITER,
+        limit: this.getPageSize(),
+        cursor: listing.cursor
+      });
+      this.r2Listings.set(cacheKey, { ...listing, objects: [...listing.objects, ...next.objects], cursor: next.cursor });
+    } catch (error) {
+      console.error('Error listing R2 objects:', error);
+      return;
+    }
+    this._onDidChangeTreeData.fire(this.r2Items.get(cacheKey));
+  }
+
+  // Visible bindings with one entry per namespace ID, as environments may share a namespace
+  private getDistinctNamespaces(worker: WorkerProject): KVNamespace[] {
+    const seen = new Set<string>();
+    return this.getVisibleNamespaces(worker).filter(ns => !seen.has(ns.id) && !!seen.add(ns.id));
+  }
+
+  getEnvironment(): string | undefined {
+    return this.environment;
+  }
+
+  /**
+   * Narrows the tree to one environment (TOP_LEVEL_ENVIRONMENT for top-level bindings), or shows
+   * every environment grouped when `environment` is undefined.
+   */
+  setEnvironment(environment: string | undefined): void {
+    this.environment = environment;
+    this.namespaceItems.clear();
+    this.countdownItems.clear();
+    this._onDidChangeTreeData.fire();
+  }
+
+  // One page of keys from local state, or from the REST API in remote mode
+  private async listPage(worker: WorkerProject, namespaceId: string, limit: number, cursor?: string): Promise<KVPage> {
+    if (!this.remote) {
+      return this.kvDataProvider.listEntries(worker.path, namespaceId, limit, cursor);
+    }
+    const page = await this.remoteClient.listKeys(namespaceId, { limit, cursor });
+    return { entries: page.keys.map(toRemoteEntry), cursor: page.cursor };
+  }
+
+  // The connected account's namespaces, followed by the workers' bindings looked up remotely
+  private async getRemoteRoots(): Promise<TreeItem[]> {
+    const accountId = await this.remoteClient.getAccountId();
+    if (!accountId) {
+      // The welcome view offers to connect
+      return [];
+    }
+
+    if (!this.remoteAccount) {
+      try {
+        const namespaces = await this.remoteClient.listNamespaces();
+        this.remoteAccount = {
+          name: 'Cloudflare account',
+          path: `${REMOTE_ACCOUNT_PATH}${accountId}`,
+          wranglerPath: '',
+          kvNamespaces: namespaces.map(ns => ({ binding: ns.title, id: ns.id })),
+          r2Buckets: [],
+          d1Databases: [],
+          durableObjects: [],
+          environments: [],
+          statePath: '',
+          stateSource: 'default'
+        };
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to list remote namespaces: ${error instanceof Error ? error.message : error}`
+        );
+        return [];
+      }
+    }
+
+    if (this.workers.length === 0) {
+      await this.loadWorkers();
+    }
+    return [this.remoteAccount, ...this.workers].map(worker =>
+      new WorkerItem(
+        worker,
+        worker.kvNamespaces.length > 0
+          ? vscode.TreeItemCollapsibleState.Collapsed
+          : vscode.TreeItemCollapsibleState.None,
+        true
+      )
+    );
+  }
+
+  private getPageSize(): number {
+    return Math.max(1, vscode.workspace.getConfiguration('cloudflareKVExplorer').get<number>('pageSize', 500));
+  }
+
+  getKeyDelimiter(namespace: { binding: string; id: string }): string {
+    const delimiters = vscode.workspace
+      .getConfiguration('cloudflareKVExplorer')
+      .get<Record<string, string>>('keyDelimiters', {});
+    return delimiters[namespace.id] ?? delimiters[namespace.binding] ?? delimiters['*'] ?? '';
+  }
+
+  // Entries under `prefix`, with keys that continue past the next delimiter collapsed into folders
+  private groupEntries(
+    worker: WorkerProject,
+    namespace: { binding: string; id: string },
+    entries: KVEntry[],
+    prefix: string,
+    partial: boolean = false
+  ): TreeItem[] {
+    const delimiter = this.getKeyDelimiter(namespace);
+    if (!delimiter) {
+      return entries.map(entry => new KeyItem(worker, namespace.id, entry, this.getKeyLabel(entry.key, ''), this.remote));
+    }
+
+    const folders = new Map<string, number>(); // folder name -> key count
+    const keys: KeyItem[] = [];
+
+    for (const entry of entries) {
+      if (!entry.key.startsWith(prefix)) {
+        continue;
+      }
+      const rest = entry.key.slice(prefix.length);
+      const index = rest.indexOf(delimiter);
+      if (index === -1) {
+        keys.push(new KeyItem(worker, namespace.id, entry, this.getKeyLabel(entry.key, prefix), this.remote));
+      } else {
+        const name = rest.slice(0, index);
+        folders.set(name, (folders.get(name) || 0) + 1);
+      }
+    }
+
+    // Expand folders while searching so matches are visible straight away
+    const state = this.searchTerm && this.searchResults.size > 0
+      ? vscode.TreeItemCollapsibleState.Expanded
+      : vscode.TreeItemCollapsibleState.Collapsed;
+
+    const folderItems = [...folders.entries()].map(([name, count]) =>
+      new FolderItem(worker, namespace, `${prefix}${name}${delimiter}`, `${name}${delimiter}`, count, state, this.remote, partial)
+    );
+
+    return [...folderItems, ...keys];
+  }
+
+  // Key label (without the folder prefix) with the parts matching the active search highlighted
+  private getKeyLabel(key: string, folderPrefix: string): string | vscode.TreeItemLabel {
+    // A key that is its folder's prefix (e.g. "a:" in folder "a:") would be left with an empty label
+    const prefix = key === folderPrefix ? '' : folderPrefix;
+    const label = key.slice(prefix.length);
+    if (!this.searchQuery || !searchesKeys(this.searchQuery)) {
+      return label;
+    }
+
+    let ranges: MatchRanges | null = null;
+    try {
+      ranges = createMatcher(this.searchQuery)(key, true);
+    } catch {
+      // Invalid regex, nothing to highlight
+    }
+    if (!ranges) {
+      return label;
+    }
+
+    const highlights = ranges
+      .map(([start, end]) => [Math.max(0, start - prefix.length), end - prefix.length] as [number, number])
+      .filter(([start, end]) => end > start);
+    return { label, highlights };
+  }
+
+  /**
+   * Matching keys of the active search, grouped by namespace.
+   */
+  getSearchSelection(): Array<{ worker: WorkerProject; namespace: KVNamespace; keys: Set<string> }> {
+    if (!this.searchTerm) {
+      return [];
+    }
+    return this.workers.flatMap(worker =>
+      this.getDistinctNamespaces(worker)
+        .map(namespace => ({ worker, namespace, keys: this.searchResults.get(`${worker.path}:${namespace.id}`) }))
+        .filter((selection): selection is { worker: WorkerProject; namespace: KVNamespace; keys: Set<string> } =>
+          !!selection.keys && selection.keys.size > 0)
+    );
+  }
+
+  /**
+   * Keys currently listed under a folder, respecting the active search filter.
+   */
+  getKeysUnderPrefix(worker: WorkerProject, namespaceId: string, prefix: string): string[] {
+    const cacheKey = `${worker.path}:${namespaceId}`;
+    const entries = (this.searchTerm ? this.searchEntries.get(cacheKey) : undefined) ?? this.kvEntries.get(cacheKey)?.entries ?? [];
+    return entries.map(entry => entry.key).filter(key => key.startsWith(prefix));
+  }
+
+  async performSearch(search: string | SearchQuery, showNotification: boolean = true): Promise<number | undefined> {
+    // Plain strings may carry mode prefixes such as re:, prefix: or meta:
+    const query = typeof search === 'string' ? parseSearchQuery(search) : search;
+    if (!query.term) {
+      this.clearSearch();
+      return;
+    }
+
+    const matches = await this.findMatches(query);
+    this.applySearch(query, matches);
+    const totalMatches = matches.length;
     
     if (showNotification) {
       if (totalMatches > 0) {
         vscode.window.showInformationMessage(`Found ${totalMatches} matching entries`);
       } else {
-        vscode.window.showWarningMessage(`No matches found for "${searchTerm}"`);
+        vscode.window.showWarningMessage(`No matches found for "${query.term}" (${describeSearchQuery(query)})`);
       }
     }
     
     return totalMatches;
   }
 
-  fuzzyMatch(text: string, search: string): boolean {
-    // Simple fuzzy matching - all search characters must appear in order
-    let searchIndex = 0;
-    for (let i = 0; i < text.length && searchIndex < search.length; i++) {
-      if (text[i] === search[searchIndex]) {
-        searchIndex++;
+  /**
+   * Matches keys, values (through the search index) and metadata across every namespace, as
+   * selected by the query. Best matches first: whole/substring key matches, other key matches,
+   * ranked value hits, then metadata hits. Throws for an invalid regular expression.
+   */
+  async findMatches(query: SearchQuery): Promise<SearchMatch[]> {
+    const matcher = createMatcher(query);
+    const workers = await this.getWorkers();
+    const namespaces = workers.flatMap(worker =>
+      this.getDistinctNamespaces(worker).map(ns => ({ workerPath: worker.path, namespaceId: ns.id }))
+    );
+
+    // Values come from the index, so only blobs written since the last search are read
+    let valueHits = new Map<string, Map<string, ValueHit>>();
+    if (searchesValues(query)) {
+      try {
+        await this.searchIndex.ensureIndexed(namespaces);
+        valueHits = await this.searchIndex.searchValues(query, namespaces);
+      } catch (error) {
+        console.error('Error searching values:', error);
       }
     }
-    return searchIndex === search.length;
+
+    const term = query.caseSensitive ? query.term : query.term.toLowerCase();
+    const matches: SearchMatch[] = [];
+    for (const worker of workers) {
+      for (const namespace of this.getDistinctNamespaces(worker)) {
+        const cacheKey = `${worker.path}:${namespace.id}`;
+        
+        try {
+          // Searching needs every key; the full listing isn't cached, so browsing stays paged
+          const cached = this.kvEntries.get(cacheKey);
+          const entries = cached && cached.cursor === undefined
+            ? cached.entries
+            : (await this.kvDataProvider.getKVData(worker.path, namespace.id)).entries;
+          
+          const namespaceHits = valueHits.get(cacheKey);
+          const now = Date.now();
+          const hideExpired = !this.showExpiredKeys();
+          for (const entry of entries) {
+            if (hideExpired && isExpired(entry, now)) {
+              continue;
+            }
+            const keyRanges = searchesKeys(query) ? matcher(entry.key, true) : null;
+            const valueHit = namespaceHits?.get(entry.key);
+            const metadataMatch = searchesMetadata(query) && !!entry.metadata && matcher(entry.metadata) !== null;
+            if (keyRanges || valueHit || metadataMatch) {
+              const key = query.caseSensitive ? entry.key : entry.key.toLowerCase();
+              matches.push({
+                worker,
+                namespace,
+                entry,
+                keyRanges,
+                valueHit,
+                metadataMatch,
+                score: keyRanges ? (key.includes(term) ? 0 : 1) : valueHit ? 2 : 3
+              });
+            }
+          }
+        } catch (error) {
+          console.error(`Error searching namespace ${namespace.id}:`, error);
+        }
+      }
+    }
+
+    return matches.sort((a, b) =>
+      a.score - b.score ||
+      (a.valueHit?.rank ?? 0) - (b.valueHit?.rank ?? 0) ||
+      a.entry.key.length - b.entry.key.length
+    );
+  }
+
+  /**
+   * Filters the tree down to the given matches and highlights them with the query.
+   */
+  applySearch(query: SearchQuery, matches: SearchMatch[]): void {
+    this.searchTerm = query.term;
+    this.searchQuery = query;
+    this.searchResults.clear();
+    this.searchEntries.clear();
+    vscode.commands.executeCommand('setContext', 'cloudflareKVExplorer.searching', true);
+
+    for (const match of matches) {
+      const cacheKey = `${match.worker.path}:${match.namespace.id}`;
+      if (!this.searchResults.has(cacheKey)) {
+        this.searchResults.set(cacheKey, new Set());
+        this.searchEntries.set(cacheKey, []);
+      }
+      this.searchResults.get(cacheKey)!.add(match.entry.key);
+      this.searchEntries.get(cacheKey)!.push(match.entry);
+    }
+    for (const entries of this.searchEntries.values()) {
+      entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    }
+    
+    this.refresh();
   }
 
   clearSearch(): void {
     this.searchTerm = '';
+    this.searchQuery = undefined;
     this.searchResults.clear();
+    this.searchEntries.clear();
     vscode.commands.executeCommand('setContext', 'cloudflareKVExplorer.searching', false);
     // Don't clear workers cache when clearing search
     this.refresh();
   }
 
   dispose() {
+    clearInterval(this.countdownTimer);
+    this.dataChangeListener.dispose();
     this._onDidChangeTreeData.dispose();
+    this._onDidChangeWorkers.dispose();
   }
 }
 
 export function registerKVTreeView(
   context: vscode.ExtensionContext,
   workerDiscovery: WorkerDiscovery,
-  kvDataProvider: KVDataProvider
+  kvDataProvider: KVDataProvider,
+  searchIndex: KVSearchIndex,
+  remoteClient: CloudflareKVClient,
+  remoteDocumentProvider: KVRemoteDocumentProvider,
+  r2DataProvider: R2DataProvider,
+  r2DocumentProvider: R2DocumentProvider,
+  d1DataProvider: D1DataProvider,
+  sqliteReader: SqliteReader,
+  durableObjectDataProvider: DurableObjectDataProvider,
+  durableObjectDocumentProvider: DurableObjectDocumentProvider
 ): KVTreeProvider {
-  const treeProvider = new KVTreeProvider(workerDiscovery, kvDataProvider);
+  const treeProvider = new KVTreeProvider(
+    workerDiscovery,
+    kvDataProvider,
+    searchIndex,
+    remoteClient,
+    r2DataProvider,
+    d1DataProvider,
+    sqliteReader,
+    durableObjectDataProvider
+  );
   
   const treeView = vscode.window.createTreeView('cloudflareKVExplorer', {
     treeDataProvider: treeProvider,
     showCollapseAll: true
   });
 
-  context.subscriptions.push(treeView);
+  context.subscriptions.push(treeView, treeProvider);
+
+  // Status bar picker narrowing the tree to one Wrangler environment; shown once a config declares one
+  const ENVIRONMENT_STATE_KEY = 'cloudflareKVExplorer.environment';
+  const environmentStatus = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+  environmentStatus.command = 'cloudflare-kv-explorer.selectEnvironment';
+  const updateEnvironmentStatus = (workers: WorkerProject[]) => {
+    const environment = treeProvider.getEnvironment();
+    const label = environment === undefined
+      ? 'All Environments'
+      : environment === TOP_LEVEL_ENVIRONMENT ? 'Top Level' : environment;
+    environmentStatus.text = `$(layers) KV: ${label}`;
+    environmentStatus.tooltip = 'Choose which Wrangler environment the Cloudflare KV tree shows';
+    if (workers.some(worker => worker.environments.length > 0)) {
+      environmentStatus.show();
+    } else {
+      environmentStatus.hide();
+    }
+  };
+  treeProvider.setEnvironment(context.workspaceState.get<string>(ENVIRONMENT_STATE_KEY));
+  context.subscriptions.push(
+    environmentStatus,
+    treeProvider.onDidChangeWorkers(workers => updateEnvironmentStatus(workers)),
+    vscode.commands.registerCommand('cloudflare-kv-explorer.selectEnvironment', async () => {
+      const workers = await treeProvider.getWorkers();
+      const environments = [...new Set(workers.flatMap(worker => worker.environments))].sort();
+      const current = treeProvider.getEnvironment();
+      const items: Array<vscode.QuickPickItem & { environment: string | undefined }> = [
+        { label: 'All Environments', description: 'grouped by environment', environment: undefined },
+        { label: 'Top Level', description: 'bindings outside [env.*]', environment: TOP_LEVEL_ENVIRONMENT },
+        ...environments.map(env => ({
+          label: env,
+          description: `${workers.filter(worker => worker.kvNamespaces.some(ns => ns.env === env)).length} workers`,
+          environment: env
+        }))
+      ].map(item => ({ ...item, label: item.environment === current ? `$(check) ${item.label}` : item.label }));
+
+      const choice = await vscode.window.showQuickPick(items, { title: 'Show KV Namespaces For' });
+      if (!choice) return;
+      treeProvider.setEnvironment(choice.environment);
+      await context.workspaceState.update(ENVIRONMENT_STATE_KEY, choice.environment);
+      updateEnvironmentStatus(workers);
+    })
+  );
+
+  // Follow local KV writes made while wrangler dev is running
+  const stateWatcher = new KVStateWatcher(kvDataProvider);
+  context.subscriptions.push(
+    stateWatcher,
+    treeProvider.onDidChangeWorkers(workers => {
+      // The data providers must know each worker's state directory before anything reads them
+      kvDataProvider.setWorkers(workers);
+      r2DataProvider.setWorkers(workers);
+      d1DataProvider.setWorkers(workers);
+      durableObjectDataProvider.setWorkers(workers);
+      stateWatcher.watch(workers);
+    }),
+    vscode.workspace.onDidChangeConfiguration(async e => {
+      if (
+        e.affectsConfiguration('cloudflareKVExplorer.keyDelimiters') ||
+        e.affectsConfiguration('cloudflareKVExplorer.showExpiredKeys')
+      ) {
+        treeProvider.refresh();
+      } else if (
+        e.affectsConfiguration('cloudflareKVExplorer.persistTo') ||
+        e.affectsConfiguration('cloudflareKVExplorer.stateDirectories')
+      ) {
+        await treeProvider.fullRefresh();
+      } else if (e.affectsConfiguration('cloudflareKVExplorer.autoRefresh')) {
+        stateWatcher.watch(await treeProvider.getWorkers());
+      }
+    })
+  );
+
+  // Re-discover workers when wrangler config files change
+  workerDiscovery.watchWorkers(workers => treeProvider.setWorkers(workers)).then(watcher => {
+    context.subscriptions.push(watcher);
+  });
 
   // Register refresh command with full refresh to clear caches
   context.subscriptions.push(
     vscode.commands.registerCommand('cloudflare-kv-explorer.refreshTree', async () => {
+      remoteDocumentProvider.refreshAll();
+      r2DocumentProvider.refreshAll();
+      durableObjectDocumentProvider.refreshAll();
+      sqliteReader.closeAll();
       await treeProvider.fullRefresh();
     })
   );
 
+  // Remote mode: the same tree, backed by the Workers KV REST API
+  const updateRemoteConnected = async () => {
+    await vscode.commands.executeCommand('setContext', 'cloudflareKVExplorer.remoteConnected', await remoteClient.isConfigured());
+  };
+  updateRemoteConnected();
+
+  context.subscriptions.push(
+    remoteClient.onDidChangeCredentials(async () => {
+      await updateRemoteConnected();
+      if (treeProvider.isRemote()) {
+        remoteDocumentProvider.refreshAll();
+        await treeProvider.fullRefresh();
+      }
+    }),
+    vscode.commands.registerCommand('cloudflare-kv-explorer.connectRemote', async () => {
+      if (await promptForCredentials(remoteClient)) {
+        treeProvider.setRemote(true);
+      }
+    }),
+    vscode.commands.registerCommand('cloudflare-kv-explorer.disconnectRemote', async () => {
+      await remoteClient.clearCredentials();
+      treeProvider.setRemote(false);
+      vscode.window.showInformationMessage('Disconnected from Cloudflare. The API token was removed.');
+    }),
+    vscode.commands.registerCommand('cloudflare-kv-explorer.showRemote', async () => {
+      if (!(await remoteClient.isConfigured()) && !(await promptForCredentials(remoteClient))) {
+        return;
+      }
+      treeProvider.setRemote(true);
+    }),
+    vscode.commands.registerCommand('cloudflare-kv-explorer.showLocal', () => {
+      treeProvider.setRemote(false);
+    })
+  );
+
   // Register search command with live quick pick
   context.subscriptions.push(
     vscode.commands.registerCommand('cloudflare-kv-explorer.searchKeys', async () => {
       if (DEBUG) outputChannel.appendLine('[Search] Command triggered');
+      if (treeProvider.isRemote()) {
+        vscode.window.showInformationMessage('Search works on local state. Switch back to local to search.');
+        return;
+      }
       
       // Create quick pick for live search
       const quickPick = vscode.window.createQuickPick();
-      quickPick.placeholder = 'Type to search keys and values...';
+      quickPick.placeholder = 'Type to search keys and values (prefixes: re: exact: prefix: case: key: value: meta:)';
       quickPick.matchOnDescription = true;
       quickPick.matchOnDetail = true;
+
+      // Modes toggled with the buttons; prefixes typed in the input override them
+      const modes: Omit<SearchQuery, 'term'> = { ...DEFAULT_SEARCH_QUERY };
+      const toggles: Array<{ icon: string; label: string; isOn: () => boolean; toggle: () => void }> = [
+        {
+          icon: 'regex',
+          label: 'Regular expression',
+          isOn: () => modes.matcher === 'regex',
+          toggle: () => { modes.matcher = modes.matcher === 'regex' ? 'fuzzy' : 'regex'; }
+        },
+        {
+          icon: 'whole-word',
+          label: 'Exact match',
+          isOn: () => modes.matcher === 'exact',
+          toggle: () => { modes.matcher = modes.matcher === 'exact' ? 'fuzzy' : 'exact'; }
+        },
+        {
+          icon: 'triangle-right',
+          label: 'Prefix match',
+          isOn: () => modes.matcher === 'prefix',
+          toggle: () => { modes.matcher = modes.matcher === 'prefix' ? 'fuzzy' : 'prefix'; }
+        },
+        {
+          icon: 'case-sensitive',
+          label: 'Match case',
+          isOn: () => modes.caseSensitive,
+          toggle: () => { modes.caseSensitive = !modes.caseSensitive; }
+        },
+        {
+          icon: 'symbol-key',
+          label: 'Keys only',
+          isOn: () => modes.scope === 'keys',
+          toggle: () => { modes.scope = modes.scope === 'keys' ? 'all' : 'keys'; }
+        },
+        {
+          icon: 'symbol-string',
+          label: 'Values only',
+          isOn: () => modes.scope === 'values',
+          toggle: () => { modes.scope = modes.scope === 'values' ? 'all' : 'values'; }
+        },
+        {
+          icon: 'tag',
+          label: 'Metadata',
+          isOn: () => modes.scope === 'metadata',
+          toggle: () => { modes.scope = modes.scope === 'metadata' ? 'all' : 'metadata'; }
+        }
+      ];
+      const buttons = toggles.map(mode => ({ mode, iconPath: new vscode.ThemeIcon(mode.icon), tooltip: '' }));
+      const updateButtons = () => {
+        for (const button of buttons) {
+          button.tooltip = `${button.mode.label} (${button.mode.isOn() ? 'on' : 'off'})`;
+        }
+        quickPick.buttons = [...buttons];
+        quickPick.title = `Search: ${describeSearchQuery(parseSearchQuery(quickPick.value, modes))}`;
+      };
+      updateButtons();
       
       let searchTimeout: NodeJS.Timeout | undefined;
+
+      const runSearch = async (value: string) => {
+        if (DEBUG) outputChannel.appendLine('[Search] Starting search after debounce for: ' + value);
+        const query = parseSearchQuery(value, modes);
+        quickPick.busy = true;
+        
+        if (!query.term) {
+          if (DEBUG) outputChannel.appendLine('[Search] Clearing search - empty value');
+          quickPick.items = [];
+          treeProvider.clearSearch();
+          quickPick.busy = false;
+          return;
+        }
+        
+        // Perform search and collect results
+        let matches: SearchMatch[] = [];
+        try {
+          matches = await treeProvider.findMatches(query);
+        } catch (error) {
+          if (DEBUG) outputChannel.appendLine('[Search] ERROR searching: ' + error);
+          if (error instanceof SyntaxError) {
+            // Invalid regular expression, keep the tree as it is until the pattern is fixed
+            quickPick.items = [{ label: `$(error) ${error.message}`, alwaysShow: true }];
+            quickPick.busy = false;
+            return;
+          }
+        }
+
+        // QuickPickItem takes no highlight ranges in the stable API; the quick pick highlights what
+        // its own filter finds of the typed text. That covers a term found as-is in the key, but not
+        // typed mode prefixes, regular expressions or fuzzy subsequences, so for those the key is
+        // repeated in the description with its matched parts in brackets
+        const typed = quickPick.value.trim();
+        const describeKeyMatch = (match: SearchMatch) => {
+          const ranges = match.keyRanges?.filter(([start, end]) => end > start);
+          if (!ranges?.length || (typed === query.term && ranges.length === 1 && ranges[0][1] - ranges[0][0] === typed.length)) {
+            return '';
+          }
+          const key = match.entry.key;
+          let marked = '';
+          let position = 0;
+          for (const [start, end] of ranges) {
+            marked += `${key.slice(position, start)}[${key.slice(start, end)}]`;
+            position = end;
+          }
+          return ` · matched ${marked}${key.slice(position)}`;
+        };
+
+        const searchResults = matches.map(match => ({
+          label: `$(key) ${match.entry.key}`,
+          description: `${match.worker.name} / ${getNamespaceLabel(match.namespace)}${describeKeyMatch(match)}`,
+          detail: match.valueHit
+            ? `Value: ${match.valueHit.preview}`
+            : match.metadataMatch ? `Metadata: ${match.entry.metadata}` : undefined,
+          alwaysShow: true,
+          // Store metadata for selection
+          _worker: match.worker,
+          _namespaceId: match.namespace.id,
+          _key: match.entry.key
+        }));
+        
+        if (DEBUG) outputChannel.appendLine(`[Search] Total results found: ${searchResults.length}`);
+        quickPick.items = searchResults;
+        quickPick.busy = false;
+        
+        // Update tree view with the same results (don't show notification since quick pick shows results)
+        treeProvider.applySearch(query, matches);
+      };
       
       // Handle text changes for live search
       quickPick.onDidChangeValue(async (value) => {
         if (DEBUG) outputChannel.appendLine('[Search] Value changed: ' + value);
+        updateButtons();
         
         // Clear previous timeout
         if (searchTimeout) {
@@ -388,105 +1906,21 @@ export function registerKVTreeView(
         }
         
         // Debounce the search
-        searchTimeout = setTimeout(async () => {
-          if (DEBUG) outputChannel.appendLine('[Search] Starting search after debounce for: ' + value);
-          quickPick.busy = true;
-          
-          if (!value) {
-            if (DEBUG) outputChannel.appendLine('[Search] Clearing search - empty value');
-            quickPick.items = [];
-            treeProvider.clearSearch();
-            quickPick.busy = false;
-            return;
-          }
-          
-          // Perform search and collect results
-          const searchResults: vscode.QuickPickItem[] = [];
-          if (DEBUG) outputChannel.appendLine('[Search] Getting workers from tree provider...');
-          const workers = await treeProvider.getWorkers();
-          if (DEBUG) outputChannel.appendLine('[Search] Found workers: ' + workers.length);
-          if (workers.length === 0) {
-            if (DEBUG) outputChannel.appendLine('[Search] No workers found! Attempting direct discovery...');
-            // Try direct discovery as fallback
-            const directWorkers = await workerDiscovery.findWorkers();
-            if (DEBUG) outputChannel.appendLine('[Search] Direct discovery found: ' + directWorkers.length + ' workers');
-          }
-          
-          for (const worker of workers) {
-            if (DEBUG) outputChannel.appendLine(`[Search] Searching worker: ${worker.name} with ${worker.kvNamespaces.length} namespaces`);
-            
-            for (const namespace of worker.kvNamespaces) {
-              try {
-                if (DEBUG) outputChannel.appendLine(`[Search] Getting data for namespace: ${namespace.binding} (${namespace.id})`);
-                const data = await kvDataProvider.getKVData(worker.path, namespace.id);
-                if (DEBUG) outputChannel.appendLine(`[Search] Found ${data.entries.length} entries in namespace`);
-                
-                for (const entry of data.entries) {
-                  // Fuzzy match on key
-                  if (DEBUG) outputChannel.appendLine(`[Search] Testing entry: ${entry.key}`);
-                  if (DEBUG) outputChannel.appendLine(`[Search] treeProvider exists: ${!!treeProvider}`);
-                  if (DEBUG) outputChannel.appendLine(`[Search] treeProvider.fuzzyMatch exists: ${!!treeProvider.fuzzyMatch}`);
-                  
-                  let keyMatch = false;
-                  try {
-                    keyMatch = treeProvider.fuzzyMatch(entry.key.toLowerCase(), value.toLowerCase());
-                    if (DEBUG) outputChannel.appendLine(`[Search] Fuzzy match result for "${entry.key}": ${keyMatch}`);
-                  } catch (err) {
-                    if (DEBUG) outputChannel.appendLine('[Search] ERROR calling fuzzyMatch: ' + err);
-                  }
-                  
-                  let valueMatch = false;
-                  let valuePreview = '';
-                  
-                  // Also search in value
-                  try {
-                    const content = await kvDataProvider.getValue(worker.path, namespace.id, entry.key);
-                    if (content) {
-                      valueMatch = content.toLowerCase().includes(value.toLowerCase());
-                      // Get preview of matching content
-                      if (valueMatch) {
-                        const index = content.toLowerCase().indexOf(value.toLowerCase());
-                        const start = Math.max(0, index - 20);
-                        const end = Math.min(content.length, index + value.length + 20);
-                        valuePreview = content.substring(start, end).replace(/\\n/g, ' ');
-                        if (start > 0) valuePreview = '...' + valuePreview;
-                        if (end < content.length) valuePreview = valuePreview + '...';
-                      }
-                    }
-                  } catch (err) {
-                    if (DEBUG) outputChannel.appendLine('[Search] Error searching value: ' + err);
-                  }
-                  
-                  if (keyMatch || valueMatch) {
-                    if (DEBUG) outputChannel.appendLine(`[Search] Match found for ${entry.key} - keyMatch: ${keyMatch}, valueMatch: ${valueMatch}`);
-                    searchResults.push({
-                      label: `$(key) ${entry.key}`,
-                      description: `${worker.name} / ${namespace.binding}`,
-                      detail: valueMatch ? `Value: ${valuePreview}` : undefined,
-                      alwaysShow: true,
-                      // Store metadata for selection
-                      // @ts-ignore - storing custom data
-                      _worker: worker,
-                      _namespaceId: namespace.id,
-                      _key: entry.key
-                    });
-                  }
-                }
-              } catch (error) {
-                if (DEBUG) outputChannel.appendLine(`[Search] ERROR searching namespace ${namespace.id}: ${error}`);
-              }
-            }
-          }
-          
-          if (DEBUG) outputChannel.appendLine(`[Search] Total results found: ${searchResults.length}`);
-          quickPick.items = searchResults;
-          quickPick.busy = false;
-          
-          // Update tree view with filtered results (don't show notification since quick pick shows results)
-          if (value) {
-            await treeProvider.performSearch(value, false);
-          }
-        }, 500); // 500ms debounce
+        searchTimeout = setTimeout(() => runSearch(value), 500); // 500ms debounce
+      });
+
+      // Toggling a mode re-runs the current search straight away
+      quickPick.onDidTriggerButton(button => {
+        const mode = buttons.find(b => b.iconPath === button.iconPath)?.mode;
+        if (!mode) {
+          return;
+        }
+        mode.toggle();
+        updateButtons();
+        if (searchTimeout) {
+          clearTimeout(searchTimeout);
+        }
+        runSearch(quickPick.value);
       });
       
       // Handle selection
@@ -526,5 +1960,526 @@ export function registerKVTreeView(
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.loadMoreKeys', async (item: LoadMoreItem) => {
+      if (item instanceof LoadMoreItem) {
+        await treeProvider.loadMore(item);
+      }
+    }),
+    vscode.commands.registerCommand('cloudflare-kv-explorer.loadMoreObjects', async (item: R2LoadMoreItem) => {
+      if (item instanceof R2LoadMoreItem) {
+        await treeProvider.loadMoreObjects(item);
+      }
+    })
+  );
+
+  // Local D1 databases and Durable Object SQL storage: browse a table a page at a time, or run
+  // read-only queries
+  const pickD1Database = async (): Promise<SqlSource | undefined> => {
+    const sources: Array<vscode.QuickPickItem & { source: SqlSource }> = [];
+    for (const worker of await treeProvider.getWorkers()) {
+      for (const database of worker.d1Databases) {
+        const databaseId = await d1DataProvider.getLocalDatabaseId(worker.path, database);
+        const dbPath = databaseId ? await d1DataProvider.findDatabase(worker.path, databaseId) : null;
+        if (dbPath) {
+          const label = getNamespaceLabel(database);
+          sources.push({ label, description: worker.name, source: { dbPath, label } });
+        }
+      }
+    }
+    if (sources.length === 0) {
+      vscode.window.showInformationMessage('No D1 databases with local state found. Run wrangler dev or wrangler d1 execute --local first.');
+      return undefined;
+    }
+    return (await vscode.window.showQuickPick(sources, { title: 'Query D1 Database' }))?.source;
+  };
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.openSqlTable', (item: SqlTableItem) => {
+      if (item instanceof SqlTableItem) {
+        SqlTablePanel.showTable(sqliteReader, item.source, item.table.name, item.table.rowCount);
+      }
+    }),
+    vscode.commands.registerCommand(
+      'cloudflare-kv-explorer.runSqlQuery',
+      async (item?: D1DatabaseItem | DurableObjectItem | SqlTableItem) => {
+        if (item instanceof SqlTableItem) {
+          SqlTablePanel.showQuery(sqliteReader, item.source, item.table.name);
+          return;
+        }
+        const source = (item instanceof D1DatabaseItem && item.dbPath) || item instanceof DurableObjectItem
+          ? item.getSqlSource()
+          : await pickD1Database();
+        if (source) {
+          SqlTablePanel.showQuery(sqliteReader, source);
+        }
+      }
+    )
+  );
+
+  // Choose how keys in a namespace are grouped into folders
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.setKeyDelimiter', async (item: NamespaceItem) => {
+      if (!(item instanceof NamespaceItem)) {
+        return;
+      }
+
+      const current = treeProvider.getKeyDelimiter(item.namespace);
+      const options = [
+        { label: 'No grouping', detail: 'Flat list of keys', delimiter: '' },
+        { label: ':', detail: 'e.g. tenant:123:config', delimiter: ':' },
+        { label: '/', detail: 'e.g. snapshots/2024/01', delimiter: '/' }
+      ].map(option => ({ ...option, description: option.delimiter === current ? 'current' : undefined }));
+
+      const choice = await vscode.window.showQuickPick(options, {
+        title: `Group keys in ${item.namespace.binding}`,
+        placeHolder: 'Split keys into folders on'
+      });
+      if (!choice) return;
+
+      const config = vscode.workspace.getConfiguration('cloudflareKVExplorer');
+      const delimiters = { ...config.get<Record<string, string>>('keyDelimiters', {}) };
+      delimiters[item.namespace.id] = choice.delimiter;
+      await config.update('keyDelimiters', delimiters, vscode.ConfigurationTarget.Workspace);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.copyPrefix', async (item: FolderItem | R2FolderItem) => {
+      if (!(item instanceof FolderItem || item instanceof R2FolderItem)) {
+        return;
+      }
+      await vscode.env.clipboard.writeText(item.prefix);
+      vscode.window.showInformationMessage(`Copied ${item.prefix} to clipboard`);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.openKeysUnderPrefix', async (item: FolderItem) => {
+      if (!(item instanceof FolderItem)) {
+        return;
+      }
+
+      const keys = treeProvider.getKeysUnderPrefix(item.worker, item.namespace.id, item.prefix);
+      if (keys.length > 10) {
+        const choice = await vscode.window.showWarningMessage(
+          `Open ${keys.length} keys under ${item.prefix}?`,
+          { modal: true },
+          'Open All'
+        );
+        if (choice !== 'Open All') return;
+      }
+
+      for (const key of keys) {
+        await vscode.commands.executeCommand('cloudflare-kv-explorer.openKey', item.worker, item.namespace.id, key);
+      }
+    })
+  );
+
+  // Create a new key in a namespace
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.newKey', async (item: NamespaceItem) => {
+      if (!(item instanceof NamespaceItem)) {
+        return;
+      }
+
+      const key = await vscode.window.showInputBox({
+        title: `New Key in ${item.namespace.binding}`,
+        prompt: 'Key name',
+        validateInput: value => value ? undefined : 'Key name is required'
+      });
+      if (!key) return;
+
+      const existing = await kvDataProvider.getEntry(item.worker.path, item.namespace.id, key);
+      if (existing) {
+        const choice = await vscode.window.showWarningMessage(
+          `Key "${key}" already exists. Overwrite it?`,
+          { modal: true },
+          'Overwrite'
+        );
+        if (choice !== 'Overwrite') return;
+      }
+
+      const metadata = await vscode.window.showInputBox({
+        title: `New Key in ${item.namespace.binding}`,
+        prompt: 'Metadata as JSON (optional)',
+        placeHolder: '{"contentType": "application/json"}',
+        validateInput: value => {
+          if (!value) return undefined;
+          try {
+            JSON.parse(value);
+            return undefined;
+          } catch {
+            return 'Metadata must be valid JSON';
+          }
+        }
+      });
+      if (metadata === undefined) return;
+
+      const ttl = await vscode.window.showInputBox({
+        title: `New Key in ${item.namespace.binding}`,
+        prompt: 'Expiration TTL in seconds (optional)',
+        placeHolder: '3600',
+        validateInput: value => {
+          if (!value) return undefined;
+          // Cloudflare rejects TTLs shorter than a minute
+          return /^\d+$/.test(value) && parseInt(value, 10) >= MIN_TTL ? undefined : `TTL must be at least ${MIN_TTL} seconds`;
+        }
+      });
+      if (ttl === undefined) return;
+
+      try {
+        await kvDataProvider.putValue(item.worker.path, item.namespace.id, key, '', {
+          // Miniflare stores expiration as milliseconds since the epoch
+          expiration: ttl ? Date.now() + parseInt(ttl, 10) * 1000 : undefined,
+          metadata: metadata ? JSON.stringify(JSON.parse(metadata)) : undefined
+        });
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to create key: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+
+      // Open the empty entry so the value can be written and saved
+      await vscode.commands.executeCommand('cloudflare-kv-explorer.openKey', item.worker, item.namespace.id, key);
+    })
+  );
+
+  // Delete a key after confirmation
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.deleteKey', async (item: KeyItem) => {
+      if (!(item instanceof KeyItem)) {
+        return;
+      }
+
+      const choice = await vscode.window.showWarningMessage(
+        `Delete "${item.entry.key}" from the local KV store?`,
+        { modal: true, detail: 'This cannot be undone.' },
+        'Delete'
+      );
+      if (choice !== 'Delete') return;
+
+      try {
+        await kvDataProvider.deleteKey(item.worker.path, item.namespaceId, item.entry.key);
+        vscode.window.showInformationMessage(`Deleted ${item.entry.key}`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to delete key: ${error instanceof Error ? error.message : error}`);
+      }
+    })
+  );
+
+  // Open an entry's metadata as JSON; saving the document writes it back to the entry
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.showMetadata', async (item: KeyItem | R2ObjectItem) => {
+      let uri: vscode.Uri;
+      if (item instanceof R2ObjectItem) {
+        // Everything R2 keeps about the object: etag, checksums, HTTP and custom metadata, parts
+        uri = createR2Uri(item.worker.path, item.bucketName, item.object.key, true);
+      } else if (item instanceof KeyItem) {
+        uri = item.remote
+          ? createRemoteKVUri(item.namespaceId, item.entry.key, true)
+          : createKVMetadataUri(item.worker.path, item.namespaceId, item.entry.key);
+      } else {
+        return;
+      }
+      const doc = await vscode.workspace.openTextDocument(uri);
+      await vscode.languages.setTextDocumentLanguage(doc, 'json');
+      await vscode.window.showTextDocument(doc, { preview: false });
+    })
+  );
+
+  // Show or hide entries that have expired but haven't been purged yet
+  for (const [command, show] of [
+    ['cloudflare-kv-explorer.hideExpiredKeys', false],
+    ['cloudflare-kv-explorer.showExpiredKeys', true]
+  ] as const) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(command, async () => {
+        await vscode.workspace
+          .getConfiguration('cloudflareKVExplorer')
+          .update('showExpiredKeys', show, vscode.ConfigurationTarget.Workspace);
+      })
+    );
+  }
+
+  // Set, change or remove when a key expires
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.setExpiration', async (item: KeyItem) => {
+      if (!(item instanceof KeyItem)) {
+        return;
+      }
+
+      const current = item.entry.expiration ? getExpirationTime(item.entry.expiration) : undefined;
+      const options = [
+        { label: 'Expire after a TTL', detail: `Seconds from now, at least ${MIN_TTL}`, mode: 'ttl' as const },
+        { label: 'Expire at a date and time', detail: 'ISO 8601 date or Unix time in seconds', mode: 'date' as const },
+        ...(current !== undefined
+          ? [{ label: 'Remove expiration', detail: 'Keep the key until it is deleted', mode: 'none' as const }]
+          : [])
+      ];
+      const choice = await vscode.window.showQuickPick(options, {
+        title: `Expiration for ${item.entry.key}`,
+        placeHolder: current !== undefined
+          ? `${isExpired(item.entry) ? 'Expired' : 'Expires'} ${new Date(current).toLocaleString()}`
+          : 'No expiration set'
+      });
+      if (!choice) return;
+
+      let expiration: number | null = null;
+      if (choice.mode === 'ttl') {
+        const ttl = await vscode.window.showInputBox({
+          title: `Expiration for ${item.entry.key}`,
+          prompt: 'TTL in seconds',
+          placeHolder: '3600',
+          validateInput: value =>
+            // Cloudflare rejects TTLs shorter than a minute
+            /^\d+$/.test(value) && parseInt(value, 10) >= MIN_TTL ? undefined : `TTL must be at least ${MIN_TTL} seconds`
+        });
+        if (ttl === undefined) return;
+        expiration = Date.now() + parseInt(ttl, 10) * 1000;
+      } else if (choice.mode === 'date') {
+        const parseDate = (value: string) =>
+          /^\d+$/.test(value) ? getExpirationTime(parseInt(value, 10)) : Date.parse(value);
+        const date = await vscode.window.showInputBox({
+          title: `Expiration for ${item.entry.key}`,
+          prompt: 'Date and time (e.g. 2025-01-31T12:00:00Z) or Unix time in seconds',
+          value: new Date(current ?? Date.now() + 60 * 60 * 1000).toISOString(),
+          validateInput: value => {
+            const time = parseDate(value);
+            if (Number.isNaN(time)) return 'Not a valid date';
+            return time > Date.now() ? undefined : 'Date must be in the future';
+          }
+        });
+        if (date === undefined) return;
+        expiration = parseDate(date);
+      }
+
+      try {
+        await kvDataProvider.setExpiration(item.worker.path, item.namespaceId, item.entry.key, expiration);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to set expiration: ${error instanceof Error ? error.message : error}`);
+      }
+    })
+  );
+
+  // Write a value's raw bytes to a file, from the tree or from an open entry
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.saveValueAs', async (target: KeyItem | R2ObjectItem | DurableObjectKeyItem | vscode.Uri) => {
+      let key: string | undefined;
+      // Remote and Durable Object values are saved as stored rather than as displayed
+      let readValue: ((key: string) => Promise<Uint8Array | null>) | undefined;
+      // R2 objects can be too large to hold in memory, so they're streamed to the file instead
+      let streamValue: ((key: string, destination: string) => Promise<number | null>) | undefined;
+      if (target instanceof KeyItem) {
+        const { worker, namespaceId } = target;
+        key = target.entry.key;
+        readValue = target.remote
+          ? key => remoteClient.getValue(namespaceId, key)
+          : key => kvDataProvider.getValueBytes(worker.path, namespaceId, key);
+      } else if (target instanceof R2ObjectItem) {
+        const { worker, bucketName } = target;
+        key = target.object.key;
+        streamValue = (key, destination) => r2DataProvider.saveObject(worker.path, bucketName, key, destination);
+      } else if (target instanceof DurableObjectKeyItem) {
+        const { dbPath } = target.object;
+        key = target.key;
+        readValue = key => durableObjectDataProvider.getStorageValue(dbPath, key);
+      } else if (target instanceof vscode.Uri && target.scheme === 'cloudflare-kv') {
+        const { workerPath, namespaceId, key: uriKey } = parseKVUri(target);
+        key = uriKey;
+        readValue = key => kvDataProvider.getValueBytes(workerPath, namespaceId, key);
+      } else if (target instanceof vscode.Uri && target.scheme === REMOTE_SCHEME) {
+        const { namespaceId, key: uriKey } = parseRemoteUri(target);
+        key = uriKey;
+        readValue = key => remoteClient.getValue(namespaceId, key);
+      } else if (target instanceof vscode.Uri && target.scheme === R2_SCHEME) {
+        const { workerPath, bucketName, key: uriKey } = parseR2Uri(target);
+        key = uriKey;
+        streamValue = (key, destination) => r2DataProvider.saveObject(workerPath, bucketName, key, destination);
+      } else if (target instanceof vscode.Uri && target.scheme === DURABLE_OBJECT_SCHEME) {
+        const { dbPath, key: uriKey } = parseDurableObjectUri(target);
+        key = uriKey;
+        readValue = key => durableObjectDataProvider.getStorageValue(dbPath, key);
+      } else {
+        return;
+      }
+      if (key === undefined) return;
+
+      const bytes = readValue ? await readValue(key) : undefined;
+      if (bytes === null) {
+        vscode.window.showErrorMessage(`${key} no longer exists`);
+        return;
+      }
+
+      const defaultName = path.basename(key.replace(/[:/\\]+/g, '_')) || 'value';
+      const destination = await vscode.window.showSaveDialog({
+        title: `Save ${key}`,
+        defaultUri: vscode.workspace.workspaceFolders
+          ? vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, defaultName)
+          : undefined,
+        saveLabel: 'Save Value'
+      });
+      if (!destination) return;
+
+      let size: number | null;
+      try {
+        if (streamValue) {
+          size = await streamValue(key, destination.fsPath);
+        } else {
+          await vscode.workspace.fs.writeFile(destination, bytes!);
+          size = bytes!.byteLength;
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to save ${key}: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+      if (size === null) {
+        vscode.window.showErrorMessage(`${key} no longer exists`);
+        return;
+      }
+      vscode.window.showInformationMessage(`Saved ${key} (${formatByteSize(size)}) to ${destination.fsPath}`);
+    })
+  );
+
+  // Rename a key within its namespace
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.renameKey', async (item: KeyItem) => {
+      if (!(item instanceof KeyItem)) {
+        return;
+      }
+
+      const newKey = await vscode.window.showInputBox({
+        title: `Rename ${item.entry.key}`,
+        prompt: 'New key name',
+        value: item.entry.key,
+        validateInput: value => value ? undefined : 'Key name is required'
+      });
+      if (!newKey || newKey === item.entry.key) return;
+
+      let overwrite = false;
+      if (await kvDataProvider.getEntry(item.worker.path, item.namespaceId, newKey)) {
+        const choice = await vscode.window.showWarningMessage(
+          `Key "${newKey}" already exists. Overwrite it?`,
+          { modal: true },
+          'Overwrite'
+        );
+        if (choice !== 'Overwrite') return;
+        overwrite = true;
+      }
+
+      try {
+        await kvDataProvider.renameKey(item.worker.path, item.namespaceId, item.entry.key, newKey, overwrite);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to rename key: ${error instanceof Error ? error.message : error}`);
+      }
+    })
+  );
+
+  // Clean up local state that no binding refers to
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cloudflare-kv-explorer.purgeNamespace', async (item: UnboundNamespaceItem | OrphanDatabaseItem) => {
+      if (!(item instanceof UnboundNamespaceItem || item instanceof OrphanDatabaseItem)) {
+        return;
+      }
+
+      const label = item instanceof UnboundNamespaceItem ? `namespace ${item.namespace.id}` : path.basename(item.dbPath);
+      const running = await findWranglerDevProcesses();
+      const detail = [
+        item instanceof UnboundNamespaceItem
+          ? `Its ${item.keyCount ?? 0} keys, values and database will be deleted. This cannot be undone.`
+          : 'The database file will be deleted. This cannot be undone.',
+        ...(running.length > 0
+          ? ['', '`wrangler dev` appears to be running and may still have the files open; consider stopping it first.']
+          : [])
+      ].join('\n');
+      const choice = await vscode.window.showWarningMessage(
+        `Purge ${label} from local state?`,
+        { modal: true, detail },
+        'Purge'
+      );
+      if (choice !== 'Purge') return;
+
+      try {
+        if (item instanceof UnboundNamespaceItem) {
+          await kvDataProvider.purgeNamespace(item.worker.path, item.namespace.id);
+        } else {
+          await kvDataProvider.purgeDatabase(item.dbPath);
+        }
+        treeProvider.refresh();
+        vscode.window.showInformationMessage(`Purged ${label}`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to purge ${label}: ${error instanceof Error ? error.message : error}`);
+      }
+    }),
+
+    // Move an unbound namespace's keys into one of the worker's bindings
+    vscode.commands.registerCommand('cloudflare-kv-explorer.attachNamespace', async (item: UnboundNamespaceItem) => {
+      if (!(item instanceof UnboundNamespaceItem)) {
+        return;
+      }
+      const { worker } = item;
+      if (worker.kvNamespaces.length === 0) {
+        vscode.window.showInformationMessage(`${worker.name} has no KV bindings to attach to`);
+        return;
+      }
+
+      const counts = await Promise.all(
+        worker.kvNamespaces.map(ns => kvDataProvider.countEntries(worker.path, ns.id).catch(() => null))
+      );
+      const target = await vscode.window.showQuickPick(
+        worker.kvNamespaces.map((ns, index) => ({
+          label: getNamespaceLabel(ns),
+          description: ns.id,
+          detail: counts[index] !== null ? `${counts[index]!.toLocaleString()} keys in local state` : 'No local state yet',
+          namespace: ns,
+          keyCount: counts[index]
+        })),
+        { title: `Attach ${item.namespace.id} to Binding`, placeHolder: 'Select the binding whose local state should hold these keys' }
+      );
+      if (!target) return;
+
+      const running = await findWranglerDevProcesses();
+      const runningDetail = running.length > 0
+        ? ['', '`wrangler dev` appears to be running and may not see the moved state until it restarts; consider stopping it first.']
+        : [];
+      let replaceAll = false;
+      if (target.keyCount) {
+        const choice = await vscode.window.showWarningMessage(
+          `${target.label} already has ${target.keyCount.toLocaleString()} keys in local state.`,
+          {
+            modal: true,
+            detail: [
+              `Merge keeps its keys and overwrites those also in ${item.namespace.id}; Replace deletes them first. The unbound namespace is removed afterwards.`,
+              ...runningDetail
+            ].join('\n')
+          },
+          'Merge',
+          'Replace'
+        );
+        if (!choice) return;
+        replaceAll = choice === 'Replace';
+      } else {
+        const choice = await vscode.window.showWarningMessage(
+          `Attach ${item.namespace.id} to ${target.label}?`,
+          {
+            modal: true,
+            detail: [`Its ${item.keyCount ?? 0} keys become ${target.label}'s local state.`, ...runningDetail].join('\n')
+          },
+          'Attach'
+        );
+        if (choice !== 'Attach') return;
+      }
+
+      try {
+        const moved = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Attaching ${item.namespace.id} to ${target.label}` },
+          () => kvDataProvider.moveNamespace(worker.path, item.namespace.id, target.namespace.id, { replaceAll })
+        );
+        treeProvider.refresh();
+        vscode.window.showInformationMessage(`Moved ${moved.toLocaleString()} keys into ${target.label}`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to attach namespace: ${error instanceof Error ? error.message : error}`);
+      }
+    })
+  );
+
   return treeProvider;
 }
\ No newline at end of file
@@ -0,0 +1,287 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { KVDataProvider } from './KVDataProvider';
+import { parseKVUri } from './KVDocumentProvider';
+import { CloudflareKVClient } from './CloudflareKVClient';
+import { REMOTE_SCHEME, parseRemoteUri } from './KVRemoteDocumentProvider';
+import { R2DataProvider } from './R2DataProvider';
+import { R2_SCHEME, parseR2Uri } from './R2DocumentProvider';
+import { DurableObjectDocumentProvider, DURABLE_OBJECT_SCHEME, parseDurableObjectUri } from './DurableObjectDocumentProvider';
+import { sniffContent, formatByteSize, ValueContent } from './ContentSniffer';
+
+export const VALUE_VIEWER_TYPE = 'cloudflare-kv-explorer.valueViewer';
+
+// Hex dumps stop after this many bytes; the full value is available through "Save Value As…"
+const MAX_HEX_BYTES = 64 * 1024;
+
+// pdf.js files shipped with the extension (see .vscodeignore). The legacy build still runs in the
+// older Chromium of the VS Code versions we support
+const PDFJS_PATH = ['node_modules', 'pdfjs-dist'];
+const PDFJS_BUILD_PATH = [...PDFJS_PATH, 'legacy', 'build'];
+
+// Pages are rendered at this zoom, then scaled down to the editor's width
+const PDF_RENDER_SCALE = 1.5;
+
+/**
+ * Read-only viewer for `cloudflare-kv` (and `cloudflare-kv-remote`) values, `cloudflare-r2`
+ * objects and `cloudflare-do` storage values that aren't text:
+ * images and PDFs are previewed inline (PDFs with pdf.js) and everything else shown as a hex dump.
+ */
+export class KVValueEditorProvider implements vscode.CustomReadonlyEditorProvider {
+  constructor(
+    private extensionUri: vscode.Uri,
+    private kvDataProvider: KVDataProvider,
+    private remoteClient: CloudflareKVClient,
+    private r2DataProvider: R2DataProvider,
+    private durableObjectDocumentProvider: DurableObjectDocumentProvider
+  ) {}
+
+  openCustomDocument(uri: vscode.Uri): vscode.CustomDocument {
+    return { uri, dispose: () => {} };
+  }
+
+  async resolveCustomEditor(document: vscode.CustomDocument, panel: vscode.WebviewPanel): Promise<void> {
+    if (document.uri.scheme === REMOTE_SCHEME) {
+      const { namespaceId, key } = parseRemoteUri(document.uri);
+      await this.resolveFetchedEditor(document.uri, key, panel, () => this.remoteClient.getValue(namespaceId, key!));
+      return;
+    }
+    if (document.uri.scheme === R2_SCHEME) {
+      const { workerPath, bucketName, key } = parseR2Uri(document.uri);
+      await this.resolveFetchedEditor(document.uri, key, panel,
+        () => this.r2DataProvider.getObjectBytes(workerPath, bucketName, key!));
+      return;
+    }
+    if (document.uri.scheme === DURABLE_OBJECT_SCHEME) {
+      const { key } = parseDurableObjectUri(document.uri);
+      await this.resolveFetchedEditor(document.uri, key, panel,
+        () => this.durableObjectDocumentProvider.readFile(document.uri).catch(() => null));
+      return;
+    }
+    if (document.uri.scheme !== 'cloudflare-kv') {
+      panel.webview.html = this.getMessageHtml('Only Cloudflare KV entries, R2 objects and Durable Object values can be opened with this viewer');
+      return;
+    }
+
+    const { workerPath, namespaceId, key } = parseKVUri(document.uri);
+    panel.webview.options = this.getWebviewOptions();
+    const readValue = () => this.kvDataProvider.getValueBytes(workerPath, namespaceId, key!);
+
+    const render = async () => {
+      const bytes = key !== undefined ? await readValue() : null;
+      panel.webview.html = bytes
+        ? this.getHtml(panel.webview, key!, bytes, sniffContent(bytes))
+        : this.getMessageHtml(`${key ?? document.uri.path} no longer exists`);
+    };
+
+    // Re-render when the entry is written by us or by wrangler dev
+    const changeListener = this.kvDataProvider.onDidChangeNamespace(change => {
+      if (
+        change.workerPath === workerPath &&
+        change.namespaceId === namespaceId &&
+        (!change.keys || (key !== undefined && change.keys.includes(key)))
+      ) {
+        render();
+      }
+    });
+    panel.onDidDispose(() => changeListener.dispose());
+
+    panel.webview.onDidReceiveMessage(async message => {
+      if (message.command === 'saveAs') {
+        await vscode.commands.executeCommand('cloudflare-kv-explorer.saveValueAs', document.uri);
+      } else if (message.command === 'openExternal' && key !== undefined) {
+        await this.openExternally(key, readValue);
+      }
+    });
+
+    await render();
+  }
+
+  // Remote values and R2 objects are read once; there's no change feed to follow
+  private async resolveFetchedEditor(
+    uri: vscode.Uri,
+    key: string | undefined,
+    panel: vscode.WebviewPanel,
+    readValue: () => Promise<Uint8Array | null>
+  ): Promise<void> {
+    panel.webview.options = this.getWebviewOptions();
+    if (key === undefined) {
+      panel.webview.html = this.getMessageHtml(`${uri.path} is not a key`);
+      return;
+    }
+
+    panel.webview.onDidReceiveMessage(async message => {
+      if (message.command === 'saveAs') {
+        await vscode.commands.executeCommand('cloudflare-kv-explorer.saveValueAs', uri);
+      } else if (message.command === 'openExternal') {
+        await this.openExternally(key, readValue);
+      }
+    });
+
+    try {
+      const bytes = await readValue();
+      panel.webview.html = bytes
+        ? this.getHtml(panel.webview, key, bytes, sniffContent(bytes))
+        : this.getMessageHtml(`${key} no longer exists`);
+    } catch (error) {
+      panel.webview.html = this.getMessageHtml(`Failed to load ${key}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Writes the value to a temporary file and hands it to the system's default application
+  private async openExternally(key: string, readValue: () => Promise<Uint8Array | null>): Promise<void> {
+    const bytes = await readValue();
+    if (!bytes) {
+      return;
+    }
+    const extension = sniffContent(bytes).mimeType === 'application/pdf' ? '.pdf' : '';
+    const file = vscode.Uri.file(
+      path.join(os.tmpdir(), `${key.replace(/[^\w.-]+/g, '_').slice(0, 100)}-${Date.now()}${extension}`)
+    );
+    await vscode.workspace.fs.writeFile(file, bytes);
+    await vscode.env.openExternal(file);
+  }
+
+  private getWebviewOptions(): vscode.WebviewOptions {
+    return {
+      enableScripts: true,
+      localResourceRoots: [vscode.Uri.joinPath(this.extensionUri, ...PDFJS_PATH)]
+    };
+  }
+
+  private getHtml(webview: vscode.Webview, key: string, bytes: Uint8Array, content: ValueContent): string {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    let body: string;
+    if (content.kind === 'image') {
+      body = `<img class="preview" src="data:${content.mimeType};base64,${Buffer.from(bytes).toString('base64')}" alt="${escapeHtml(key)}">`;
+    } else if (content.kind === 'pdf') {
+      body = this.getPdfPreview(webview, bytes, nonce);
+    } else {
+      body = `<pre class="hex">${escapeHtml(hexDump(bytes.subarray(0, MAX_HEX_BYTES)))}</pre>`;
+      if (bytes.byteLength > MAX_HEX_BYTES) {
+        body += `<p class="note">Showing the first ${formatByteSize(MAX_HEX_BYTES)} of ${formatByteSize(bytes.byteLength)}.</p>`;
+      }
+    }
+
+    return this.getPage(`
+      <header>
+        <div>
+          <strong>${escapeHtml(key)}</strong>
+          <span class="note">${escapeHtml(content.description)} · ${formatByteSize(bytes.byteLength)}</span>
+        </div>
+        <div>
+          ${content.kind === 'pdf' ? '<button data-command="openExternal">Open in Default App</button>' : ''}
+          <button data-command="saveAs">Save Value As…</button>
+        </div>
+      </header>
+      ${body}`, webview, nonce);
+  }
+
+  // Renders every page to a canvas with pdf.js, one after another so long documents show up as they go
+  private getPdfPreview(webview: vscode.Webview, bytes: Uint8Array, nonce: string): string {
+    const uri = (...segments: string[]) => webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, ...segments)).toString();
+    const options = {
+      library: uri(...PDFJS_BUILD_PATH, 'pdf.min.mjs'),
+      worker: uri(...PDFJS_BUILD_PATH, 'pdf.worker.min.mjs'),
+      cMapUrl: `${uri(...PDFJS_PATH, 'cmaps')}/`,
+      standardFontDataUrl: `${uri(...PDFJS_PATH, 'standard_fonts')}/`,
+      scale: PDF_RENDER_SCALE
+    };
+    return `<p id="pdf-status" class="note">Rendering…</p>
+      <div id="pdf-pages"></div>
+      <script id="pdf-data" type="application/octet-stream">${Buffer.from(bytes).toString('base64')}</script>
+      <script id="pdf-options" type="application/json">${JSON.stringify(options).replace(/</g, '\\u003c')}</script>
+      <script type="module" nonce="${nonce}">
+        const status = document.getElementById('pdf-status');
+        try {
+          const options = JSON.parse(document.getElementById('pdf-options').textContent);
+          const pdfjs = await import(options.library);
+          // Workers can't be started straight from the extension's resource origin, so run it from a blob
+          const workerSource = await (await fetch(options.worker)).text();
+          pdfjs.GlobalWorkerOptions.workerPort = new Worker(
+            URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' })),
+            { type: 'module' }
+          );
+
+          const data = Uint8Array.from(atob(document.getElementById('pdf-data').textContent), char => char.charCodeAt(0));
+          const pdf = await pdfjs.getDocument({
+            data,
+            cMapUrl: options.cMapUrl,
+            cMapPacked: true,
+            standardFontDataUrl: options.standardFontDataUrl,
+            isEvalSupported: false
+          }).promise;
+          const pages = document.getElementById('pdf-pages');
+          for (let number = 1; number <= pdf.numPages; number++) {
+            status.textContent = 'Rendering page ' + number + ' of ' + pdf.numPages + '…';
+            const page = await pdf.getPage(number);
+            const viewport = page.getViewport({ scale: options.scale });
+            const canvas = document.createElement('canvas');
+            canvas.className = 'page';
+            canvas.width = viewport.width;
+            canvas.height = viewport.height;
+            pages.appendChild(canvas);
+            await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+          }
+          status.textContent = pdf.numPages + (pdf.numPages === 1 ? ' page' : ' pages');
+        } catch (error) {
+          status.textContent = 'The PDF couldn\'t be rendered (' + (error && error.message || error) + '). Use "Open in Default App" to view it.';
+        }
+      </script>`;
+  }
+
+  private getMessageHtml(message: string): string {
+    return this.getPage(`<p class="note">${escapeHtml(message)}</p>`);
+  }
+
+  private getPage(body: string, webview?: vscode.Webview, nonce: string = crypto.randomBytes(16).toString('hex')): string {
+    // pdf.js is loaded from the extension and starts its worker from a blob
+    const pdfSources = webview
+      ? ` script-src 'nonce-${nonce}' ${webview.cspSource}; connect-src ${webview.cspSource}; worker-src blob:;`
+      : ` script-src 'nonce-${nonce}';`;
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'nonce-${nonce}';${pdfSources}">
+  <style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+    header { display: flex; justify-content: space-between; align-items: center; gap: 8px; padding: 8px 0; border-bottom: 1px solid var(--vscode-panel-border); margin-bottom: 12px; }
+    .note { color: var(--vscode-descriptionForeground); margin-left: 8px; }
+    .preview { max-width: 100%; background: repeating-conic-gradient(#8882 0% 25%, transparent 0% 50%) 0 0 / 16px 16px; }
+    .page { display: block; max-width: 100%; margin-bottom: 12px; box-shadow: 0 1px 4px #0004; }
+    .hex { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 12px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+  </style>
+</head>
+<body>
+  ${body}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    for (const button of document.querySelectorAll('button[data-command]')) {
+      button.addEventListener('click', () => vscode.postMessage({ command: button.dataset.command }));
+    }
+  </script>
+</body>
+</html>`;
+  }
+}
+
+// Classic 16 bytes per line dump: offset, hex bytes, printable ASCII
+function hexDump(bytes: Uint8Array): string {
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = bytes.subarray(offset, offset + 16);
+    const hex = Array.from(row, byte => byte.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(row, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+}
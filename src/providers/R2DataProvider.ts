@@ -0,0 +1,351 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import * as sqlite3 from '@vscode/sqlite3';
+import { durableObjectIdFromName } from './KVDataProvider';
+import { R2Bucket } from './WorkerDiscovery';
+import { formatByteSize } from './ContentSniffer';
+
+export const R2_BUCKET_OBJECT_DIR = 'miniflare-R2BucketObject';
+
+export interface R2Object {
+  key: string;
+  // Null for multipart objects, whose bytes live in their parts' blobs
+  blobId: string | null;
+  version: string;
+  size: number;
+  etag: string;
+  // Milliseconds since the epoch
+  uploaded: number;
+  checksums: Record<string, string>;
+  httpMetadata: Record<string, unknown>;
+  customMetadata: Record<string, string>;
+}
+
+export interface R2Part {
+  partNumber: number;
+  blobId: string;
+  size: number;
+  etag: string;
+}
+
+// A multipart upload that was started but neither completed nor aborted
+export interface R2MultipartUpload {
+  uploadId: string;
+  key: string;
+  parts: number;
+  size: number;
+}
+
+export interface R2Listing {
+  objects: R2Object[];
+  // Common prefixes up to and including the delimiter, like R2's `delimitedPrefixes`
+  prefixes: string[];
+  // Last key of this page when more objects follow
+  cursor?: string;
+}
+
+interface R2ObjectRow {
+  key: string;
+  blob_id: string | null;
+  version: string;
+  size: number;
+  etag: string;
+  uploaded: number;
+  checksums: string;
+  http_metadata: string;
+  custom_metadata: string;
+}
+
+// The object's Content-Type, if one was stored with it
+export function getContentType(object: R2Object): string | undefined {
+  const contentType = object.httpMetadata.contentType;
+  return typeof contentType === 'string' ? contentType : undefined;
+}
+
+// Miniflare marks uploads this way in _mf_multipart_uploads.state
+const MULTIPART_IN_PROGRESS = 0;
+
+// Objects larger than this aren't read into memory to be shown, only streamed to a file
+export const MAX_READ_OBJECT_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Reads R2 buckets from Miniflare's local state. The layout matches KV's: one Durable Object
+ * database per bucket under `r2/miniflare-R2BucketObject`, and the object bytes under
+ * `r2/<bucket name>/blobs`. Multipart objects have no blob of their own; their value is the
+ * concatenation of their parts.
+ */
+export class R2DataProvider {
+  private dbCache: Map<string, sqlite3.Database> = new Map();
+  private statePaths: Map<string, string> = new Map(); // worker path -> resolved state directory
+
+  /**
+   * Records where each worker persists its state, as resolved by WorkerDiscovery.
+   */
+  setWorkers(workers: Array<{ path: string; statePath: string }>): void {
+    this.statePaths.clear();
+    for (const worker of workers) {
+      this.statePaths.set(worker.path, worker.statePath);
+    }
+  }
+
+  getR2Path(workerPath: string): string {
+    const statePath = this.statePaths.get(workerPath) ?? path.join(workerPath, '.wrangler', 'state', 'v3');
+    return path.join(statePath, 'r2');
+  }
+
+  /**
+   * The name Miniflare stores a binding's bucket under: `bucket_name`, unless only the
+   * `preview_bucket_name` bucket has local state.
+   */
+  async getLocalBucketName(workerPath: string, bucket: R2Bucket): Promise<string> {
+    if (bucket.previewBucketName && !(await this.findDatabase(workerPath, bucket.bucketName))) {
+      if (await this.findDatabase(workerPath, bucket.previewBucketName)) {
+        return bucket.previewBucketName;
+      }
+    }
+    return bucket.bucketName;
+  }
+
+  async countObjects(workerPath: string, bucketName: string): Promise<number | null> {
+    const dbPath = await this.findDatabase(workerPath, bucketName);
+    if (!dbPath) {
+      return null;
+    }
+    const row = await this.get<{ count: number }>(dbPath, 'SELECT COUNT(*) AS count FROM _mf_objects');
+    return row?.count ?? 0;
+  }
+
+  /**
+   * One level of a bucket: objects directly under `prefix` (a page of at most `limit`, after
+   * `cursor`) and the prefixes of deeper objects, split at `delimiter`.
+   */
+  async listObjects(
+    workerPath: string,
+    bucketName: string,
+    options: { prefix?: string; delimiter?: string; limit: number; cursor?: string }
+  ): Promise<R2Listing> {
+    const dbPath = await this.findDatabase(workerPath, bucketName);
+    if (!dbPath) {
+      return { objects: [], prefixes: [] };
+    }
+
+    // Compare prefixes with substr rather than LIKE, which would need every wildcard escaped
+    const params = {
+      $prefix: options.prefix ?? '',
+      $delimiter: options.delimiter ?? '',
+      $cursor: options.cursor ?? '',
+      $limit: options.limit + 1
+    };
+    const underPrefix = 'substr(key, 1, length($prefix)) = $prefix';
+    const rest = 'substr(key, length($prefix) + 1)';
+    const direct = options.delimiter ? `AND instr(${rest}, $delimiter) = 0` : '';
+
+    const rows = await this.all<R2ObjectRow>(dbPath,
+      `SELECT * FROM _mf_objects WHERE ${underPrefix} ${direct} AND key > $cursor ORDER BY key LIMIT $limit`,
+      params);
+    const more = rows.length > options.limit;
+    const objects = rows.slice(0, options.limit).map(toR2Object);
+
+    let prefixes: string[] = [];
+    if (options.delimiter && !options.cursor) {
+      const prefixRows = await this.all<{ prefix: string }>(dbPath,
+        `SELECT DISTINCT substr(key, 1, length($prefix) + instr(${rest}, $delimiter) + length($delimiter) - 1) AS prefix
+         FROM _mf_objects WHERE ${underPrefix} AND instr(${rest}, $delimiter) > 0 ORDER BY prefix`,
+        { $prefix: params.$prefix, $delimiter: params.$delimiter });
+      prefixes = prefixRows.map(row => row.prefix);
+    }
+
+    return { objects, prefixes, cursor: more ? objects[objects.length - 1].key : undefined };
+  }
+
+  async getObject(workerPath: string, bucketName: string, key: string): Promise<R2Object | null> {
+    const dbPath = await this.findDatabase(workerPath, bucketName);
+    if (!dbPath) {
+      return null;
+    }
+    const row = await this.get<R2ObjectRow>(dbPath, 'SELECT * FROM _mf_objects WHERE key = ?', [key]);
+    return row ? toR2Object(row) : null;
+  }
+
+  // Parts of a completed multipart object, in order
+  async getParts(workerPath: string, bucketName: string, key: string): Promise<R2Part[]> {
+    const dbPath = await this.findDatabase(workerPath, bucketName);
+    if (!dbPath) {
+      return [];
+    }
+    return this.all<R2Part>(dbPath,
+      `SELECT part_number AS partNumber, blob_id AS blobId, size, etag FROM _mf_multipart_parts
+       WHERE object_key = ? ORDER BY part_number`,
+      [key]);
+  }
+
+  /**
+   * The object's bytes, assembled from its parts for multipart objects. Null when the object
+   * (or one of its blobs) is gone; throws for objects over MAX_READ_OBJECT_SIZE, which
+   * saveObject() can still write out.
+   */
+  async getObjectBytes(workerPath: string, bucketName: string, key: string): Promise<Uint8Array | null> {
+    const object = await this.getObject(workerPath, bucketName, key);
+    if (!object) {
+      return null;
+    }
+    if (object.size > MAX_READ_OBJECT_SIZE) {
+      throw new Error(
+        `${key} is ${formatByteSize(object.size)}, more than the ${formatByteSize(MAX_READ_OBJECT_SIZE)} that can be opened. ` +
+        'Use Save Value As… to write it to a file.'
+      );
+    }
+
+    const blobsPath = path.join(this.getR2Path(workerPath), bucketName, 'blobs');
+    try {
+      if (object.blobId !== null) {
+        return await fs.readFile(path.join(blobsPath, object.blobId));
+      }
+      const parts = await this.getParts(workerPath, bucketName, key);
+      return Buffer.concat(await Promise.all(parts.map(part => fs.readFile(path.join(blobsPath, part.blobId)))));
+    } catch (error) {
+      console.error(`[R2DataProvider] Error reading ${key} from bucket ${bucketName}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Streams the object to a file, part by part for multipart objects, so objects of any size can
+   * be saved. Returns the number of bytes written, or null when the object is gone.
+   */
+  async saveObject(workerPath: string, bucketName: string, key: string, destination: string): Promise<number | null> {
+    const object = await this.getObject(workerPath, bucketName, key);
+    if (!object) {
+      return null;
+    }
+
+    const blobsPath = path.join(this.getR2Path(workerPath), bucketName, 'blobs');
+    const blobIds = object.blobId !== null
+      ? [object.blobId]
+      : (await this.getParts(workerPath, bucketName, key)).map(part => part.blobId);
+    const output = createWriteStream(destination);
+    try {
+      for (const blobId of blobIds) {
+        await pipeline(createReadStream(path.join(blobsPath, blobId)), output, { end: false });
+      }
+    } finally {
+      await new Promise<void>(resolve => output.end(() => resolve()));
+    }
+    return object.size;
+  }
+
+  async listMultipartUploads(workerPath: string, bucketName: string): Promise<R2MultipartUpload[]> {
+    const dbPath = await this.findDatabase(workerPath, bucketName);
+    if (!dbPath) {
+      return [];
+    }
+    return this.all<R2MultipartUpload>(dbPath,
+      `SELECT u.upload_id AS uploadId, u.key AS key, COUNT(p.part_number) AS parts, COALESCE(SUM(p.size), 0) AS size
+       FROM _mf_multipart_uploads u LEFT JOIN _mf_multipart_parts p ON p.upload_id = u.upload_id
+       WHERE u.state = ? GROUP BY u.upload_id ORDER BY u.key`,
+      [MULTIPART_IN_PROGRESS]);
+  }
+
+  // Miniflare derives the database name from the bucket name; older releases kept db.sqlite in the bucket directory
+  private async findDatabase(workerPath: string, bucketName: string): Promise<string | null> {
+    const r2Path = this.getR2Path(workerPath);
+    const candidates = [
+      path.join(r2Path, R2_BUCKET_OBJECT_DIR, `${durableObjectIdFromName(R2_BUCKET_OBJECT_DIR, bucketName)}.sqlite`),
+      path.join(r2Path, bucketName, 'db.sqlite')
+    ];
+    for (const dbPath of candidates) {
+      try {
+        await fs.access(dbPath);
+        return dbPath;
+      } catch {
+        // Try the next layout
+      }
+    }
+    // Close handles of databases deleted since they were opened
+    for (const dbPath of candidates) {
+      this.closeDatabase(dbPath);
+    }
+    return null;
+  }
+
+  private getDatabase(dbPath: string): sqlite3.Database {
+    if (this.dbCache.has(dbPath)) {
+      return this.dbCache.get(dbPath)!;
+    }
+
+    const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READONLY);
+    this.dbCache.set(dbPath, db);
+    return db;
+  }
+
+  private closeDatabase(dbPath: string): void {
+    const db = this.dbCache.get(dbPath);
+    if (db) {
+      try {
+        db.close();
+      } catch {}
+      this.dbCache.delete(dbPath);
+    }
+  }
+
+  private all<T>(dbPath: string, sql: string, params: any = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this.getDatabase(dbPath).all(sql, params, (err: Error | null, rows: T[]) => {
+        if (err) {
+          console.error(`[R2DataProvider] Error querying ${path.basename(dbPath)}:`, err);
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  private get<T>(dbPath: string, sql: string, params: any = []): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      this.getDatabase(dbPath).get(sql, params, (err: Error | null, row: T | undefined) => {
+        if (err) {
+          console.error(`[R2DataProvider] Error querying ${path.basename(dbPath)}:`, err);
+          reject(err);
+        } else {
+          resolve(row);
+        }
+      });
+    });
+  }
+
+  dispose() {
+    for (const db of this.dbCache.values()) {
+      try {
+        db.close();
+      } catch (error) {
+        console.error('[R2DataProvider] Error closing database:', error);
+      }
+    }
+    this.dbCache.clear();
+  }
+}
+
+function toR2Object(row: R2ObjectRow): R2Object {
+  return {
+    key: row.key,
+    blobId: row.blob_id,
+    version: row.version,
+    size: row.size,
+    etag: row.etag,
+    uploaded: row.uploaded,
+    checksums: parseJsonObject(row.checksums),
+    httpMetadata: parseJsonObject(row.http_metadata),
+    customMetadata: parseJsonObject(row.custom_metadata)
+  };
+}
+
+function parseJsonObject(json: string): any {
+  try {
+    return JSON.parse(json) ?? {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { R2DataProvider } from './R2DataProvider';
+
+export const R2_SCHEME = 'cloudflare-r2';
+
+interface R2UriParts {
+  workerPath: string;
+  bucketName: string;
+  key?: string;
+  // The object's details rather than its content (`?details` on the object's URI)
+  details: boolean;
+}
+
+/**
+ * Read-only view of objects in local R2 buckets. Content is served as stored; the details
+ * document lists the object's size, etag, checksums, HTTP and custom metadata, and its parts
+ * when it was uploaded in several.
+ */
+export class R2DocumentProvider implements vscode.FileSystemProvider {
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this._onDidChangeFile.event;
+
+  constructor(private r2DataProvider: R2DataProvider) {}
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => {});
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const { workerPath, bucketName, key, details } = parseR2Uri(uri);
+    if (key === undefined) {
+      return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+    }
+    const object = await this.r2DataProvider.getObject(workerPath, bucketName, key);
+    if (!object) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return {
+      type: vscode.FileType.File,
+      ctime: object.uploaded,
+      mtime: object.uploaded,
+      // The details document's size isn't known without building it
+      size: details ? 0 : object.size,
+      permissions: vscode.FilePermission.Readonly
+    };
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const { workerPath, bucketName, key, details } = parseR2Uri(uri);
+    if (key === undefined) {
+      throw vscode.FileSystemError.FileIsADirectory(uri);
+    }
+    let content: Uint8Array | null;
+    try {
+      content = details
+        ? await this.getDetails(workerPath, bucketName, key)
+        : await this.r2DataProvider.getObjectBytes(workerPath, bucketName, key);
+    } catch (error) {
+      // e.g. an object too large to open
+      throw vscode.FileSystemError.Unavailable(error instanceof Error ? error.message : String(error));
+    }
+    if (!content) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return content;
+  }
+
+  readDirectory(uri: vscode.Uri): [string, vscode.FileType][] {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  writeFile(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  delete(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(oldUri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(oldUri);
+  }
+
+  // Nothing is cached, so open documents only need telling to read again (e.g. on Refresh)
+  refreshAll(): void {
+    const uris = vscode.workspace.textDocuments.map(doc => doc.uri).filter(uri => uri.scheme === R2_SCHEME);
+    if (uris.length > 0) {
+      this._onDidChangeFile.fire(uris.map(uri => ({ type: vscode.FileChangeType.Changed, uri })));
+    }
+  }
+
+  private async getDetails(workerPath: string, bucketName: string, key: string): Promise<Uint8Array | null> {
+    const object = await this.r2DataProvider.getObject(workerPath, bucketName, key);
+    if (!object) {
+      return null;
+    }
+    const parts = object.blobId === null ? await this.r2DataProvider.getParts(workerPath, bucketName, key) : [];
+    const details = {
+      key: object.key,
+      size: object.size,
+      etag: object.etag,
+      version: object.version,
+      uploaded: new Date(object.uploaded).toISOString(),
+      httpMetadata: object.httpMetadata,
+      customMetadata: object.customMetadata,
+      checksums: object.checksums,
+      ...(object.blobId === null
+        ? { parts: parts.map(part => ({ partNumber: part.partNumber, size: part.size, etag: part.etag })) }
+        : {})
+    };
+    return new TextEncoder().encode(JSON.stringify(details, null, 2));
+  }
+
+  dispose() {
+    this._onDidChangeFile.dispose();
+  }
+}
+
+export function parseR2Uri(uri: vscode.Uri): R2UriParts {
+  // URI format: cloudflare-r2://worker-path/bucket-name/key
+  const pathParts = uri.path.split('/').filter(p => p);
+  if (pathParts.length < 1) {
+    throw vscode.FileSystemError.FileNotFound(uri);
+  }
+  return {
+    workerPath: decodeURIComponent(uri.authority),
+    bucketName: pathParts[0],
+    key: pathParts.length > 1 ? decodeURIComponent(pathParts.slice(1).join('/')) : undefined,
+    details: uri.query === 'details'
+  };
+}
+
+export function createR2Uri(workerPath: string, bucketName: string, key: string, details: boolean = false): vscode.Uri {
+  return vscode.Uri.from({
+    scheme: R2_SCHEME,
+    authority: encodeURIComponent(workerPath),
+    path: `/${bucketName}/${encodeURIComponent(key)}`,
+    query: details ? 'details' : undefined
+  });
+}
@@ -0,0 +1,149 @@
+// How a term is compared: `fuzzy` is the original behaviour (keys match as a subsequence,
+// values and metadata as a substring); the others apply the same way to every field
+export type SearchMatcher = 'fuzzy' | 'exact' | 'prefix' | 'regex';
+
+// Which parts of an entry are searched
+export type SearchScope = 'all' | 'keys' | 'values' | 'metadata';
+
+export interface SearchQuery {
+  term: string;
+  matcher: SearchMatcher;
+  caseSensitive: boolean;
+  scope: SearchScope;
+}
+
+// Highlight ranges as [start, end) pairs, or null when the text doesn't match
+export type MatchRanges = [number, number][];
+
+const MATCHER_PREFIXES: Record<string, SearchMatcher> = {
+  're:': 'regex',
+  'regex:': 'regex',
+  'exact:': 'exact',
+  'prefix:': 'prefix'
+};
+
+const SCOPE_PREFIXES: Record<string, SearchScope> = {
+  'meta:': 'metadata',
+  'key:': 'keys',
+  'value:': 'values'
+};
+
+export const DEFAULT_SEARCH_QUERY: SearchQuery = {
+  term: '',
+  matcher: 'fuzzy',
+  caseSensitive: false,
+  scope: 'all'
+};
+
+/**
+ * Reads mode prefixes such as `re:`, `prefix:`, `meta:` or `case:` from the start of the input
+ * (in any order, e.g. `meta:re:^v2`). Anything not set by a prefix comes from `defaults`.
+ */
+export function parseSearchQuery(input: string, defaults: Partial<SearchQuery> = {}): SearchQuery {
+  const query: SearchQuery = { ...DEFAULT_SEARCH_QUERY, ...defaults, term: input };
+
+  let rest = input;
+  let consumed = true;
+  while (consumed) {
+    consumed = false;
+    const lower = rest.toLowerCase();
+    for (const [prefix, matcher] of Object.entries(MATCHER_PREFIXES)) {
+      if (lower.startsWith(prefix)) {
+        query.matcher = matcher;
+        rest = rest.slice(prefix.length);
+        consumed = true;
+      }
+    }
+    for (const [prefix, scope] of Object.entries(SCOPE_PREFIXES)) {
+      if (lower.startsWith(prefix)) {
+        query.scope = scope;
+        rest = rest.slice(prefix.length);
+        consumed = true;
+      }
+    }
+    if (lower.startsWith('case:')) {
+      query.caseSensitive = true;
+      rest = rest.slice('case:'.length);
+      consumed = true;
+    }
+  }
+
+  query.term = rest;
+  return query;
+}
+
+export function describeSearchQuery(query: SearchQuery): string {
+  const parts: string[] = [];
+  if (query.matcher !== 'fuzzy') parts.push(query.matcher);
+  if (query.caseSensitive) parts.push('case-sensitive');
+  if (query.scope !== 'all') parts.push(query.scope === 'metadata' ? 'metadata' : `${query.scope} only`);
+  return parts.length > 0 ? parts.join(' · ') : 'keys (fuzzy) and values';
+}
+
+export function searchesKeys(query: SearchQuery): boolean {
+  return query.scope === 'all' || query.scope === 'keys';
+}
+
+export function searchesValues(query: SearchQuery): boolean {
+  return query.scope === 'all' || query.scope === 'values';
+}
+
+export function searchesMetadata(query: SearchQuery): boolean {
+  return query.scope === 'metadata';
+}
+
+/**
+ * Builds a matcher for the query. Throws if the query is an invalid regular expression.
+ * `fuzzy` only applies subsequence matching to keys; values and metadata use substrings.
+ */
+export function createMatcher(query: SearchQuery): (text: string, isKey?: boolean) => MatchRanges | null {
+  const fold = (text: string) => (query.caseSensitive ? text : text.toLowerCase());
+  const term = fold(query.term);
+
+  switch (query.matcher) {
+    case 'regex': {
+      const regex = new RegExp(query.term, query.caseSensitive ? 'g' : 'gi');
+      return text => {
+        const ranges: MatchRanges = [];
+        regex.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(text)) !== null) {
+          ranges.push([match.index, match.index + match[0].length]);
+          // Avoid looping forever on empty matches
+          if (match[0].length === 0) regex.lastIndex++;
+        }
+        return ranges.length > 0 ? ranges : null;
+      };
+    }
+    case 'exact':
+      return text => (fold(text) === term ? [[0, text.length]] : null);
+    case 'prefix':
+      return text => (fold(text).startsWith(term) ? [[0, term.length]] : null);
+    case 'fuzzy':
+    default:
+      return (text, isKey) => (isKey ? fuzzyRanges(fold(text), term) : substringRanges(fold(text), term));
+  }
+}
+
+function substringRanges(text: string, term: string): MatchRanges | null {
+  const index = text.indexOf(term);
+  return index === -1 ? null : [[index, index + term.length]];
+}
+
+// All search characters must appear in order; contiguous runs become one range
+function fuzzyRanges(text: string, search: string): MatchRanges | null {
+  const ranges: MatchRanges = [];
+  let searchIndex = 0;
+  for (let i = 0; i < text.length && searchIndex < search.length; i++) {
+    if (text[i] === search[searchIndex]) {
+      const last = ranges[ranges.length - 1];
+      if (last && last[1] === i) {
+        last[1] = i + 1;
+      } else {
+        ranges.push([i, i + 1]);
+      }
+      searchIndex++;
+    }
+  }
+  return searchIndex === search.length ? ranges : null;
+}
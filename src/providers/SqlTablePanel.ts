@@ -0,0 +1,236 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { SqliteReader, SqlResult, quoteIdentifier } from './SqliteReader';
+
+// A local SQLite database and how to refer to it in titles
+export interface SqlSource {
+  dbPath: string;
+  label: string;
+}
+
+interface GridCell {
+  text: string;
+  kind: 'null' | 'number' | 'text' | 'blob';
+}
+
+type PanelMessage = { command: 'page'; page: number } | { command: 'run'; sql: string };
+
+// Rows per page when browsing a table
+const TABLE_PAGE_SIZE = 100;
+
+// Rows shown from a query's result
+const QUERY_MAX_ROWS = 1000;
+
+// Bytes of a BLOB shown before it's cut short
+const BLOB_PREVIEW_BYTES = 32;
+
+/**
+ * Webview showing rows from a local SQLite database: a table or view a page at a time, or the
+ * results of read-only queries typed into the panel.
+ */
+export class SqlTablePanel {
+  static showTable(reader: SqliteReader, source: SqlSource, table: string, rowCount: number | null): void {
+    const panel = createPanel(`${table} (${source.label})`);
+    panel.webview.html = getHtml({ mode: 'table', title: `${source.label}: ${table}`, rowCount });
+
+    const showPage = async (page: number) => {
+      try {
+        const result = await reader.getRows(source.dbPath, table, page * TABLE_PAGE_SIZE, TABLE_PAGE_SIZE);
+        panel.webview.postMessage({ command: 'result', page, offset: page * TABLE_PAGE_SIZE, ...toGrid(result) });
+      } catch (error) {
+        panel.webview.postMessage({ command: 'error', message: error instanceof Error ? error.message : String(error) });
+      }
+    };
+
+    panel.webview.onDidReceiveMessage((message: PanelMessage) => {
+      if (message.command === 'page') {
+        showPage(Math.max(0, message.page));
+      }
+    });
+  }
+
+  static showQuery(reader: SqliteReader, source: SqlSource, table?: string): void {
+    const panel = createPanel(`Query ${source.label}`);
+    const sql = table !== undefined
+      ? `SELECT * FROM ${quoteIdentifier(table)} LIMIT 100;`
+      : `SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') ORDER BY name;`;
+    panel.webview.html = getHtml({ mode: 'query', title: `Query ${source.label}`, sql });
+
+    panel.webview.onDidReceiveMessage(async (message: PanelMessage) => {
+      if (message.command !== 'run') {
+        return;
+      }
+      try {
+        const result = await reader.query(source.dbPath, message.sql, QUERY_MAX_ROWS);
+        panel.webview.postMessage({ command: 'result', offset: 0, ...toGrid(result) });
+      } catch (error) {
+        panel.webview.postMessage({ command: 'error', message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  }
+}
+
+function createPanel(title: string): vscode.WebviewPanel {
+  return vscode.window.createWebviewPanel(
+    'cloudflareSqlTable',
+    title,
+    vscode.ViewColumn.Active,
+    { enableScripts: true, retainContextWhenHidden: true }
+  );
+}
+
+// Cells are formatted here so the webview only ever deals with strings
+function toGrid(result: SqlResult): { columns: string[]; rows: GridCell[][]; truncated: boolean; durationMs: number } {
+  return {
+    columns: result.columns,
+    rows: result.rows.map(row => row.map(formatCell)),
+    truncated: result.truncated,
+    durationMs: result.durationMs
+  };
+}
+
+function formatCell(value: unknown): GridCell {
+  if (value === null || value === undefined) {
+    return { text: 'NULL', kind: 'null' };
+  }
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return { text: String(value), kind: 'number' };
+  }
+  if (value instanceof Uint8Array) {
+    const hex = Buffer.from(value.subarray(0, BLOB_PREVIEW_BYTES)).toString('hex');
+    const more = value.byteLength > BLOB_PREVIEW_BYTES ? '…' : '';
+    return { text: `x'${hex}${more}' (${value.byteLength} bytes)`, kind: 'blob' };
+  }
+  return { text: String(value), kind: 'text' };
+}
+
+function getHtml(options: { mode: 'table'; title: string; rowCount: number | null } | { mode: 'query'; title: string; sql: string }): string {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const controls = options.mode === 'table'
+    ? `<div class="toolbar">
+        <button id="prev">Previous</button>
+        <button id="next">Next</button>
+        <span id="status" class="note"></span>
+      </div>`
+    : `<textarea id="sql" spellcheck="false" rows="6">${escapeHtml(options.sql)}</textarea>
+      <div class="toolbar">
+        <button id="run">Run</button>
+        <span class="note">Ctrl+Enter · read-only · first statement only · up to ${QUERY_MAX_ROWS} rows</span>
+        <span id="status" class="note"></span>
+      </div>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+    .note { color: var(--vscode-descriptionForeground); }
+    .error { color: var(--vscode-errorForeground); white-space: pre-wrap; }
+    .toolbar { display: flex; gap: 8px; align-items: center; margin: 8px 0; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 12px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    button:disabled { opacity: 0.5; cursor: default; }
+    textarea { width: 100%; box-sizing: border-box; font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size);
+      background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); }
+    table { border-collapse: collapse; font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+    th, td { border: 1px solid var(--vscode-panel-border); padding: 2px 6px; text-align: left; vertical-align: top;
+      max-width: 400px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    th { position: sticky; top: 0; background: var(--vscode-editor-background); }
+    td.row { color: var(--vscode-descriptionForeground); text-align: right; }
+    td.number { text-align: right; }
+    td.null, td.blob { color: var(--vscode-descriptionForeground); font-style: italic; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(options.title)}</h1>
+  ${controls}
+  <div id="grid"></div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const mode = ${JSON.stringify(options.mode)};
+    const rowCount = ${JSON.stringify(options.mode === 'table' ? options.rowCount : null)};
+    const grid = document.getElementById('grid');
+    const status = document.getElementById('status');
+    let page = 0;
+
+    function cell(tag, text, className) {
+      const element = document.createElement(tag);
+      element.textContent = text;
+      element.title = text;
+      if (className) element.className = className;
+      return element;
+    }
+
+    function render(message) {
+      grid.textContent = '';
+      if (message.columns.length === 0) {
+        grid.appendChild(cell('p', 'No rows', 'note'));
+      } else {
+        const table = document.createElement('table');
+        const header = document.createElement('tr');
+        header.appendChild(cell('th', '#'));
+        message.columns.forEach(column => header.appendChild(cell('th', column)));
+        table.appendChild(header);
+        message.rows.forEach((row, index) => {
+          const tr = document.createElement('tr');
+          tr.appendChild(cell('td', String(message.offset + index + 1), 'row'));
+          row.forEach(value => tr.appendChild(cell('td', value.text, value.kind)));
+          table.appendChild(tr);
+        });
+        grid.appendChild(table);
+      }
+
+      if (mode === 'table') {
+        page = message.page;
+        const first = message.rows.length > 0 ? message.offset + 1 : 0;
+        const last = message.offset + message.rows.length;
+        status.textContent = 'Rows ' + first + '–' + last + (rowCount !== null ? ' of ' + rowCount : '');
+        document.getElementById('prev').disabled = page === 0;
+        document.getElementById('next').disabled = !message.truncated;
+      } else {
+        status.textContent = message.rows.length + (message.truncated ? '+' : '') + ' rows in ' + message.durationMs + ' ms'
+          + (message.truncated ? ' (showing the first ' + message.rows.length + ')' : '');
+      }
+    }
+
+    window.addEventListener('message', event => {
+      const message = event.data;
+      if (message.command === 'result') {
+        render(message);
+      } else if (message.command === 'error') {
+        grid.textContent = '';
+        grid.appendChild(cell('p', message.message, 'error'));
+        status.textContent = '';
+      }
+    });
+
+    if (mode === 'table') {
+      document.getElementById('prev').addEventListener('click', () => vscode.postMessage({ command: 'page', page: page - 1 }));
+      document.getElementById('next').addEventListener('click', () => vscode.postMessage({ command: 'page', page: page + 1 }));
+      // The first page is asked for once the panel can receive it
+      vscode.postMessage({ command: 'page', page: 0 });
+    } else {
+      const sql = document.getElementById('sql');
+      const run = () => {
+        status.textContent = 'Running…';
+        vscode.postMessage({ command: 'run', sql: sql.value });
+      };
+      document.getElementById('run').addEventListener('click', run);
+      sql.addEventListener('keydown', event => {
+        if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+          event.preventDefault();
+          run();
+        }
+      });
+      sql.focus();
+    }
+  </script>
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+}
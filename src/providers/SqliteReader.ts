@@ -0,0 +1,193 @@
+import * as path from 'path';
+import * as sqlite3 from '@vscode/sqlite3';
+
+export interface SqlTable {
+  name: string;
+  type: 'table' | 'view';
+  // Null when not counted, or the count failed (e.g. a view over a missing table)
+  rowCount: number | null;
+}
+
+export interface SqlColumn {
+  name: string;
+  type: string;
+  // Position in the primary key, 0 when the column isn't part of it
+  pk: number;
+}
+
+export interface SqlResult {
+  columns: string[];
+  rows: unknown[][];
+  // More rows followed the ones returned
+  truncated: boolean;
+  durationMs: number;
+}
+
+// Tables SQLite, workerd and Miniflare keep for themselves
+const INTERNAL_TABLE_PATTERN = /^(sqlite_|_cf_|_mf_)/;
+
+// Queries still running after this long are interrupted
+const QUERY_TIMEOUT_MS = 10000;
+
+/**
+ * Read-only access to the SQLite databases behind D1 and Durable Objects. Connections are opened
+ * with OPEN_READONLY, so queries typed by the user can't change local state whatever they contain.
+ */
+export class SqliteReader {
+  private dbCache: Map<string, sqlite3.Database> = new Map();
+
+  /**
+   * The database's own tables and views, leaving out internal ones. Counting rows scans every
+   * table, so callers that only need the names can skip it.
+   */
+  async listTables(dbPath: string, countRows: boolean = true): Promise<SqlTable[]> {
+    const rows = await this.all<{ name: string; type: 'table' | 'view' }>(
+      dbPath,
+      `SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') ORDER BY name`
+    );
+    const tables = rows.filter(row => !INTERNAL_TABLE_PATTERN.test(row.name));
+    if (!countRows) {
+      return tables.map(table => ({ ...table, rowCount: null }));
+    }
+    return Promise.all(tables.map(async table => {
+      const count = await this.get<{ count: number }>(dbPath, `SELECT COUNT(*) AS count FROM ${quoteIdentifier(table.name)}`)
+        .catch(() => undefined);
+      return { ...table, rowCount: count?.count ?? null };
+    }));
+  }
+
+  async getColumns(dbPath: string, table: string): Promise<SqlColumn[]> {
+    return this.all<SqlColumn>(dbPath, `SELECT name, type, pk FROM pragma_table_info(?)`, [table]);
+  }
+
+  /**
+   * One page of a table or view, in storage order.
+   */
+  async getRows(dbPath: string, table: string, offset: number, limit: number): Promise<SqlResult> {
+    const started = Date.now();
+    const columns = (await this.getColumns(dbPath, table)).map(column => column.name);
+    const rows = await this.all<Record<string, unknown>>(
+      dbPath,
+      `SELECT * FROM ${quoteIdentifier(table)} LIMIT ? OFFSET ?`,
+      [limit + 1, offset]
+    );
+    return {
+      columns,
+      rows: rows.slice(0, limit).map(row => columns.map(column => row[column])),
+      truncated: rows.length > limit,
+      durationMs: Date.now() - started
+    };
+  }
+
+  /**
+   * Runs the first statement in `sql` and returns at most `maxRows` of its rows. Columns are taken
+   * from the first row, so a query returning nothing has none.
+   */
+  async query(dbPath: string, sql: string, maxRows: number): Promise<SqlResult> {
+    const db = this.getDatabase(dbPath);
+    const started = Date.now();
+    const timeout = setTimeout(() => db.interrupt(), QUERY_TIMEOUT_MS);
+
+    try {
+      const statement = await new Promise<sqlite3.Statement>((resolve, reject) => {
+        const prepared = db.prepare(sql, (err: Error | null) => (err ? reject(err) : resolve(prepared)));
+      });
+      const rows: Record<string, unknown>[] = [];
+      let truncated = false;
+      try {
+        // Step one row at a time so a huge result is never read past maxRows
+        for (;;) {
+          const row = await new Promise<Record<string, unknown> | undefined>((resolve, reject) => {
+            statement.get((err: Error | null, row?: Record<string, unknown>) => (err ? reject(err) : resolve(row)));
+          });
+          if (!row) {
+            break;
+          }
+          if (rows.length === maxRows) {
+            truncated = true;
+            break;
+          }
+          rows.push(row);
+        }
+      } finally {
+        statement.finalize();
+      }
+
+      const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+      return {
+        columns,
+        rows: rows.map(row => columns.map(column => row[column])),
+        truncated,
+        durationMs: Date.now() - started
+      };
+    } catch (error) {
+      if (error instanceof Error && /SQLITE_INTERRUPT/.test(error.message)) {
+        throw new Error(`Query interrupted after ${QUERY_TIMEOUT_MS / 1000} seconds`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // Rows of a query built by the extension itself, as opposed to one typed into the query panel
+  select<T>(dbPath: string, sql: string, params: any = []): Promise<T[]> {
+    return this.all<T>(dbPath, sql, params);
+  }
+
+  private getDatabase(dbPath: string): sqlite3.Database {
+    if (this.dbCache.has(dbPath)) {
+      return this.dbCache.get(dbPath)!;
+    }
+
+    const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READONLY);
+    this.dbCache.set(dbPath, db);
+    return db;
+  }
+
+  private all<T>(dbPath: string, sql: string, params: any = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this.getDatabase(dbPath).all(sql, params, (err: Error | null, rows: T[]) => {
+        if (err) {
+          console.error(`[SqliteReader] Error querying ${path.basename(dbPath)}:`, err);
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  private get<T>(dbPath: string, sql: string, params: any = []): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      this.getDatabase(dbPath).get(sql, params, (err: Error | null, row: T | undefined) => {
+        if (err) {
+          console.error(`[SqliteReader] Error querying ${path.basename(dbPath)}:`, err);
+          reject(err);
+        } else {
+          resolve(row);
+        }
+      });
+    });
+  }
+
+  // Drops every cached connection, so the next read sees databases created or replaced since
+  closeAll(): void {
+    for (const db of this.dbCache.values()) {
+      try {
+        db.close();
+      } catch (error) {
+        console.error('[SqliteReader] Error closing database:', error);
+      }
+    }
+    this.dbCache.clear();
+  }
+
+  dispose() {
+    this.closeAll();
+  }
+}
+
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
@@ -9,13 +9,79 @@ export interface WorkerProject {
   path: string;
   wranglerPath: string;
   kvNamespaces: KVNamespace[];
+  r2Buckets: R2Bucket[];
+  d1Databases: D1Database[];
+  durableObjects: DurableObjectBinding[];
+  // Environments declared under `env` in the config
+  environments: string[];
+  // Versioned Miniflare state directory (the one containing kv/, r2/, d1/ and do/), e.g. .wrangler/state/v3
+  statePath: string;
+  stateSource: StateSource;
+}
+
+// How a worker's state directory was found: from settings, Wrangler's default, or by looking around
+export type StateSource = 'settings' | 'default' | 'detected';
+
+interface ResolvedState {
+  statePath: string;
+  source: StateSource;
 }
 
 export interface KVNamespace {
   binding: string;
   id: string;
+  previewId?: string;
+  // Wrangler environment declaring the binding; undefined for top-level bindings
+  env?: string;
+}
+
+export interface R2Bucket {
+  binding: string;
+  bucketName: string;
+  previewBucketName?: string;
+  jurisdiction?: string;
+  env?: string;
 }
 
+export interface D1Database {
+  binding: string;
+  databaseName?: string;
+  databaseId?: string;
+  previewDatabaseId?: string;
+  env?: string;
+}
+
+export interface DurableObjectBinding {
+  binding: string;
+  className: string;
+  // Worker defining the class, whose name Miniflare keys the class's storage by
+  scriptName: string;
+  // The class is defined by another worker (`script_name` in the config)
+  external: boolean;
+  env?: string;
+}
+
+// Binding name qualified with its environment, for places that list namespaces of several envs together
+export function getNamespaceLabel(namespace: { binding: string; env?: string }): string {
+  return namespace.env !== undefined ? `${namespace.binding} (${namespace.env})` : namespace.binding;
+}
+
+// Wrangler names an environment's worker `<name>-<env>` unless the environment sets its own name
+function getEnvironmentWorkerName(name: string, env: string | undefined, envConfig: Record<string, any> | undefined): string {
+  if (env === undefined) {
+    return name;
+  }
+  const envName = envConfig?.[env]?.name;
+  return typeof envName === 'string' ? envName : `${name}-${env}`;
+}
+
+// Config file names in the order Wrangler prefers them when several sit in one directory
+export const WRANGLER_CONFIG_FILES = ['wrangler.json', 'wrangler.jsonc', 'wrangler.toml'];
+export const WRANGLER_CONFIG_GLOB = '**/wrangler.{json,jsonc,toml}';
+
+// Miniflare's per-binding-type directories, any of which marks a state directory
+const STATE_DIRECTORIES = ['kv', 'r2', 'd1', 'do'];
+
 export class WorkerDiscovery {
   private wranglerParser: WranglerParser;
 
@@ -35,15 +101,16 @@ export class WorkerDiscovery {
 
     const workers: WorkerProject[] = [];
     
-    // Find all wrangler.toml files
-    if (DEBUG) outputChannel.appendLine('[WorkerDiscovery] Searching for wrangler.toml files...');
-    const wranglerFiles = await vscode.workspace.findFiles(
-      '**/wrangler.toml',
+    // Find all wrangler config files
+    if (DEBUG) outputChannel.appendLine('[WorkerDiscovery] Searching for wrangler config files...');
+    const configFiles = await vscode.workspace.findFiles(
+      WRANGLER_CONFIG_GLOB,
       '**/node_modules/**',
       100
     );
+    const wranglerFiles = this.pickConfigPerDirectory(configFiles);
 
-    if (DEBUG) outputChannel.appendLine(`[WorkerDiscovery] Found ${wranglerFiles.length} wrangler.toml files`);
+    if (DEBUG) outputChannel.appendLine(`[WorkerDiscovery] Found ${configFiles.length} wrangler config files, using ${wranglerFiles.length}`);
 
     for (const file of wranglerFiles) {
       try {
@@ -51,22 +118,55 @@ export class WorkerDiscovery {
         const workerPath = path.dirname(file.fsPath);
         const config = await this.wranglerParser.parse(file.fsPath);
         
-        // Check if .wrangler directory exists
-        const wranglerDir = path.join(workerPath, '.wrangler');
-        if (DEBUG) outputChannel.appendLine(`[WorkerDiscovery] Checking for .wrangler at: ${wranglerDir}`);
+        const name = config.name || path.basename(workerPath);
+
+        // Find the local state directory (default .wrangler/state, --persist-to, shared dirs)
+        const state = this.resolveStatePath(workerPath, name, file);
         
-        if (fs.existsSync(wranglerDir)) {
-          if (DEBUG) outputChannel.appendLine(`[WorkerDiscovery] ✅ Found .wrangler directory`);
+        if (state) {
+          if (DEBUG) outputChannel.appendLine(`[WorkerDiscovery] ✅ Using state directory ${state.statePath} (${state.source})`);
           if (DEBUG) outputChannel.appendLine(`[WorkerDiscovery] KV namespaces: ${JSON.stringify(config.kv_namespaces)}`);
+          if (DEBUG) outputChannel.appendLine(`[WorkerDiscovery] R2 buckets: ${JSON.stringify(config.r2_buckets)}`);
+          if (DEBUG) outputChannel.appendLine(`[WorkerDiscovery] D1 databases: ${JSON.stringify(config.d1_databases)}`);
+          if (DEBUG) outputChannel.appendLine(`[WorkerDiscovery] Durable Objects: ${JSON.stringify(config.durable_objects)}`);
           
           workers.push({
-            name: config.name || path.basename(workerPath),
+            name,
             path: workerPath,
             wranglerPath: file.fsPath,
-            kvNamespaces: config.kv_namespaces || []
+            kvNamespaces: (config.kv_namespaces || []).map(ns => ({
+              binding: ns.binding,
+              id: ns.id,
+              previewId: ns.preview_id,
+              env: ns.env
+            })),
+            r2Buckets: (config.r2_buckets || []).map(bucket => ({
+              binding: bucket.binding,
+              bucketName: bucket.bucket_name,
+              previewBucketName: bucket.preview_bucket_name,
+              jurisdiction: bucket.jurisdiction,
+              env: bucket.env
+            })),
+            d1Databases: (config.d1_databases || []).map(db => ({
+              binding: db.binding,
+              databaseName: db.database_name,
+              databaseId: db.database_id,
+              previewDatabaseId: db.preview_database_id,
+              env: db.env
+            })),
+            durableObjects: (config.durable_objects || []).map(binding => ({
+              binding: binding.binding,
+              className: binding.class_name,
+              scriptName: binding.script_name ?? getEnvironmentWorkerName(name, binding.env, config.env),
+              external: binding.script_name !== undefined,
+              env: binding.env
+            })),
+            environments: config.environments || [],
+            statePath: state.statePath,
+            stateSource: state.source
           });
         } else {
-          if (DEBUG) outputChannel.appendLine(`[WorkerDiscovery] ❌ No .wrangler directory found at ${wranglerDir}`);
+          if (DEBUG) outputChannel.appendLine(`[WorkerDiscovery] ❌ No local state directory found for ${workerPath}`);
         }
       } catch (error) {
         if (DEBUG) outputChannel.appendLine(`[WorkerDiscovery] Error parsing ${file.fsPath}: ${error}`);
@@ -77,8 +177,79 @@ export class WorkerDiscovery {
     return workers;
   }
 
+  /**
+   * Resolves the directory a worker persists local state to. Settings win; otherwise Wrangler's
+   * default `.wrangler/state` is tried, then state directories shared by several workers in
+   * parent folders (e.g. `wrangler dev --persist-to ../.state`).
+   */
+  private resolveStatePath(workerPath: string, workerName: string, configUri: vscode.Uri): ResolvedState | null {
+    const config = vscode.workspace.getConfiguration('cloudflareKVExplorer');
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(configUri);
+    const relativeWorkerPath = workspaceFolder
+      ? path.relative(workspaceFolder.uri.fsPath, workerPath).split(path.sep).join('/') || '.'
+      : workerPath;
+
+    const persistTo = config.get<Record<string, string>>('persistTo', {});
+    const configured = persistTo[relativeWorkerPath] ?? persistTo[workerName] ?? persistTo['*'];
+    if (configured) {
+      const root = path.resolve(workerPath, configured);
+      // Use the configured directory even before wrangler dev has created it
+      return { statePath: this.findVersionedState(root) ?? path.join(root, 'v3'), source: 'settings' };
+    }
+
+    const defaultState = this.findVersionedState(path.join(workerPath, '.wrangler', 'state'));
+    if (defaultState) {
+      return { statePath: defaultState, source: 'default' };
+    }
+
+    // Walk up to the workspace folder looking for shared persistence roots
+    const candidates = config.get<string[]>('stateDirectories', ['.wrangler/state', '.state']);
+    const stopAt = workspaceFolder?.uri.fsPath ?? path.parse(workerPath).root;
+    let dir = workerPath;
+    while (true) {
+      for (const candidate of candidates) {
+        const statePath = this.findVersionedState(path.resolve(dir, candidate));
+        if (statePath) {
+          return { statePath, source: 'detected' };
+        }
+      }
+      if (dir === stopAt || path.dirname(dir) === dir) {
+        break;
+      }
+      dir = path.dirname(dir);
+    }
+
+    return null;
+  }
+
+  // Wrangler appends v3/ to the persistence root; older setups keep kv/ directly in the root
+  private findVersionedState(root: string): string | null {
+    for (const statePath of [path.join(root, 'v3'), root]) {
+      if (STATE_DIRECTORIES.some(dir => fs.existsSync(path.join(statePath, dir)))) {
+        return statePath;
+      }
+    }
+    return null;
+  }
+
+  // Wrangler reads only one config per directory: wrangler.json, then wrangler.jsonc, then wrangler.toml
+  private pickConfigPerDirectory(files: vscode.Uri[]): vscode.Uri[] {
+    const byDirectory = new Map<string, vscode.Uri>();
+
+    for (const file of files) {
+      const dir = path.dirname(file.fsPath);
+      const current = byDirectory.get(dir);
+      const rank = WRANGLER_CONFIG_FILES.indexOf(path.basename(file.fsPath));
+      if (!current || rank < WRANGLER_CONFIG_FILES.indexOf(path.basename(current.fsPath))) {
+        byDirectory.set(dir, file);
+      }
+    }
+
+    return [...byDirectory.values()];
+  }
+
   async watchWorkers(callback: (workers: WorkerProject[]) => void): Promise<vscode.Disposable> {
-    const watcher = vscode.workspace.createFileSystemWatcher('**/wrangler.toml');
+    const watcher = vscode.workspace.createFileSystemWatcher(WRANGLER_CONFIG_GLOB);
     
     const update = async () => {
       const workers = await this.findWorkers();
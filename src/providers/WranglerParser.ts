@@ -1,4 +1,5 @@
 import * as fs from 'fs/promises';
+import * as path from 'path';
 
 let _toml: any | null = null;
 async function loadToml(): Promise<any | null> {
@@ -12,13 +13,17 @@ async function loadToml(): Promise<any | null> {
   }
 }
 
-// Extremely small fallback parser that only extracts: name (string), [[kv_namespaces]] array with binding/id, and env.<name>.kv_namespaces
+// Arrays of tables the fallback parser collects, at the top level and under env.<name>
+const FALLBACK_ARRAY_TABLES = ['kv_namespaces', 'r2_buckets', 'd1_databases', 'durable_objects.bindings'];
+
+// Extremely small fallback parser that only extracts: name (string), the arrays of tables above with
+// their string values, and the same name and arrays under env.<name>
 function fallbackParseToml(raw: string): any {
   const lines = raw.split(/\r?\n/);
   const result: any = { };
   let currentArray: string | null = null;
   let currentEnv: string | null = null;
-  const kvNamespaces: any[] = [];
+  const arrays: Record<string, any[]> = Object.fromEntries(FALLBACK_ARRAY_TABLES.map(table => [table, []]));
   const env: Record<string, any> = {};
 
   for (const line of lines) {
@@ -29,16 +34,18 @@ function fallbackParseToml(raw: string): any {
     const arrayMatch = trimmed.match(/^\[\[(.+)\]\]$/);
     if (arrayMatch) {
       currentArray = arrayMatch[1];
-      if (currentArray === 'kv_namespaces') {
-        kvNamespaces.push({});
+      if (FALLBACK_ARRAY_TABLES.includes(currentArray)) {
+        currentEnv = null;
+        arrays[currentArray].push({});
       } else if (currentArray.startsWith('env.')) {
         const rest = currentArray.slice(4); // after env.
         const parts = rest.split('.');
         currentEnv = parts[0];
         if (!env[currentEnv]) env[currentEnv] = {};
-        if (parts[1] === 'kv_namespaces') {
-          if (!env[currentEnv].kv_namespaces) env[currentEnv].kv_namespaces = [];
-          env[currentEnv].kv_namespaces.push({});
+        const table = parts.slice(1).join('.');
+        if (FALLBACK_ARRAY_TABLES.includes(table)) {
+          if (!env[currentEnv][table]) env[currentEnv][table] = [];
+          env[currentEnv][table].push({});
         }
       }
       continue;
@@ -49,7 +56,8 @@ function fallbackParseToml(raw: string): any {
       currentArray = null;
       const section = sectionMatch[1];
       if (section.startsWith('env.')) {
-        const envName = section.slice(4);
+        // [env.staging.vars] and the like belong to the staging environment
+        const envName = section.slice(4).split('.')[0];
         currentEnv = envName;
         if (!env[currentEnv]) env[currentEnv] = {};
       } else {
@@ -63,44 +71,145 @@ function fallbackParseToml(raw: string): any {
       let [, key, value] = kv;
       // Strip quotes
       value = value.replace(/^"|"$/g, '');
-      if (key === 'name') {
+      if (key === 'name' && !currentEnv && currentArray === null) {
         result.name = value;
-      } else if (currentArray === 'kv_namespaces') {
-        const current = kvNamespaces[kvNamespaces.length - 1];
-        current[key] = value;
-      } else if (currentEnv && key === 'binding' && currentArray?.startsWith('env.') && currentArray.endsWith('kv_namespaces')) {
-        // Already handled in array logic
+      } else if (currentArray !== null && FALLBACK_ARRAY_TABLES.includes(currentArray)) {
+        const arr = arrays[currentArray];
+        arr[arr.length - 1][key] = value;
       } else if (currentEnv && currentArray === null) {
         // simple key within env.<name>
         env[currentEnv][key] = value;
-      } else if (currentEnv && currentArray?.startsWith('env.') && currentArray.endsWith('kv_namespaces')) {
-        const arr = env[currentEnv].kv_namespaces;
-        const current = arr[arr.length - 1];
-        current[key] = value;
+      } else if (currentEnv && currentArray?.startsWith('env.')) {
+        const arr = env[currentEnv][currentArray.split('.').slice(2).join('.')];
+        if (arr) {
+          arr[arr.length - 1][key] = value;
+        }
       }
     }
   }
 
-  result.kv_namespaces = kvNamespaces.filter(ns => ns.binding && ns.id);
-  // Flatten env kv namespaces into env object
+  // Incomplete entries are dropped when the bindings are read
+  for (const table of FALLBACK_ARRAY_TABLES) {
+    assignTable(result, table, arrays[table]);
+  }
+  // Keep only the name and collected arrays of each environment
   if (Object.keys(env).length) {
     result.env = {};
     for (const k of Object.keys(env)) {
-      result.env[k] = {};
-      if (env[k].kv_namespaces) {
-        result.env[k].kv_namespaces = env[k].kv_namespaces.filter((ns: any) => ns.binding && ns.id);
+      result.env[k] = env[k].name ? { name: env[k].name } : {};
+      for (const table of FALLBACK_ARRAY_TABLES) {
+        if (env[k][table]) {
+          assignTable(result.env[k], table, env[k][table]);
+        }
       }
     }
   }
   return result;
 }
 
+// Dotted table names (durable_objects.bindings) nest the way a TOML parser would nest them
+function assignTable(target: any, table: string, value: any[]): void {
+  const parts = table.split('.');
+  let node = target;
+  for (const part of parts.slice(0, -1)) {
+    node = node[part] ??= {};
+  }
+  node[parts[parts.length - 1]] = value;
+}
+
+// Parses JSON with comments and trailing commas, as accepted by Wrangler for wrangler.json(c)
+export function parseJsonc(raw: string): any {
+  let output = '';
+  let i = 0;
+
+  while (i < raw.length) {
+    const char = raw[i];
+    const next = raw[i + 1];
+
+    if (char === '"') {
+      // Copy strings verbatim so comment markers and commas inside them survive
+      let j = i + 1;
+      while (j < raw.length && raw[j] !== '"') {
+        j += raw[j] === '\\' ? 2 : 1;
+      }
+      output += raw.slice(i, j + 1);
+      i = j + 1;
+    } else if (char === '/' && next === '/') {
+      while (i < raw.length && raw[i] !== '\n') i++;
+    } else if (char === '/' && next === '*') {
+      const end = raw.indexOf('*/', i + 2);
+      i = end === -1 ? raw.length : end + 2;
+    } else if (char === ',') {
+      // Drop the comma if only whitespace/comments separate it from a closing bracket
+      let j = i + 1;
+      while (j < raw.length) {
+        if (/\s/.test(raw[j])) {
+          j++;
+        } else if (raw[j] === '/' && raw[j + 1] === '/') {
+          while (j < raw.length && raw[j] !== '\n') j++;
+        } else if (raw[j] === '/' && raw[j + 1] === '*') {
+          const end = raw.indexOf('*/', j + 2);
+          j = end === -1 ? raw.length : end + 2;
+        } else {
+          break;
+        }
+      }
+      if (raw[j] !== '}' && raw[j] !== ']') {
+        output += char;
+      }
+      i++;
+    } else {
+      output += char;
+      i++;
+    }
+  }
+
+  return JSON.parse(output);
+}
+
+export interface WranglerKVNamespace {
+  binding: string;
+  id: string;
+  preview_id?: string;
+  // Name of the `env.<name>` section declaring the binding; undefined at the top level
+  env?: string;
+}
+
+export interface WranglerR2Bucket {
+  binding: string;
+  bucket_name: string;
+  preview_bucket_name?: string;
+  jurisdiction?: string;
+  env?: string;
+}
+
+export interface WranglerD1Database {
+  binding: string;
+  database_name?: string;
+  // Optional for databases that only ever run locally
+  database_id?: string;
+  preview_database_id?: string;
+  env?: string;
+}
+
+export interface WranglerDurableObject {
+  // The binding name (`name` in the config)
+  binding: string;
+  class_name: string;
+  // Worker that defines the class, when it isn't this one
+  script_name?: string;
+  env?: string;
+}
+
 export interface WranglerConfig {
   name?: string;
-  kv_namespaces?: Array<{
-    binding: string;
-    id: string;
-  }>;
+  // Top-level bindings first, then each environment's, in config order
+  kv_namespaces?: WranglerKVNamespace[];
+  r2_buckets?: WranglerR2Bucket[];
+  d1_databases?: WranglerD1Database[];
+  durable_objects?: WranglerDurableObject[];
+  // Names of the environments under `env`, including ones without KV bindings
+  environments?: string[];
   vars?: Record<string, any>;
   env?: Record<string, any>;
 }
@@ -108,54 +217,110 @@ export interface WranglerConfig {
 export class WranglerParser {
   async parse(filePath: string): Promise<WranglerConfig> {
     try {
-  const content = await fs.readFile(filePath, 'utf-8');
-  const tomlLib = await loadToml();
-  const parsed = tomlLib ? tomlLib.parse(content) : fallbackParseToml(content);
+      const content = await fs.readFile(filePath, 'utf-8');
+      const parsed = await this.parseContent(filePath, content);
       
       // Extract KV namespaces
-      const kvNamespaces: Array<{ binding: string; id: string }> = [];
-      
-      if (parsed.kv_namespaces && Array.isArray(parsed.kv_namespaces)) {
-        for (const ns of parsed.kv_namespaces) {
-          if (ns.binding && ns.id) {
-            kvNamespaces.push({
-              binding: ns.binding,
-              id: ns.id
-            });
-          }
-        }
-      }
+      const kvNamespaces = this.parseKVNamespaces(parsed.kv_namespaces);
+      const r2Buckets = this.parseR2Buckets(parsed.r2_buckets);
+      const d1Databases = this.parseD1Databases(parsed.d1_databases);
+      const durableObjects = this.parseDurableObjects(parsed.durable_objects?.bindings);
 
-      // Also check environment-specific KV namespaces (e.g., env.development.kv_namespaces)
+      // Environment-specific KV namespaces (e.g. env.staging.kv_namespaces) are kept as separate
+      // bindings, even when they reuse a top-level binding name with a different ID
+      const environments: string[] = [];
       if (parsed.env && typeof parsed.env === 'object') {
         for (const envName of Object.keys(parsed.env)) {
-          const env = parsed.env[envName];
-          if (env.kv_namespaces && Array.isArray(env.kv_namespaces)) {
-            for (const ns of env.kv_namespaces) {
-              if (ns.binding && ns.id) {
-                // Check if this binding already exists
-                const exists = kvNamespaces.some(existing => existing.binding === ns.binding);
-                if (!exists) {
-                  kvNamespaces.push({
-                    binding: `${ns.binding} (${envName})`,
-                    id: ns.id
-                  });
-                }
-              }
-            }
-          }
+          environments.push(envName);
+          kvNamespaces.push(...this.parseKVNamespaces(parsed.env[envName]?.kv_namespaces, envName));
+          r2Buckets.push(...this.parseR2Buckets(parsed.env[envName]?.r2_buckets, envName));
+          d1Databases.push(...this.parseD1Databases(parsed.env[envName]?.d1_databases, envName));
+          durableObjects.push(...this.parseDurableObjects(parsed.env[envName]?.durable_objects?.bindings, envName));
         }
       }
 
       return {
         name: parsed.name as string | undefined,
         kv_namespaces: kvNamespaces,
+        r2_buckets: r2Buckets,
+        d1_databases: d1Databases,
+        durable_objects: durableObjects,
+        environments,
         vars: parsed.vars as Record<string, any> | undefined,
         env: parsed.env as Record<string, any> | undefined
       };
     } catch (error) {
-      console.error(`Error parsing wrangler.toml at ${filePath}:`, error);
+      console.error(`Error parsing ${path.basename(filePath)} at ${filePath}:`, error);
       throw error;
     }
   }
+
+  private parseKVNamespaces(namespaces: unknown, env?: string): WranglerKVNamespace[] {
+    if (!Array.isArray(namespaces)) {
+      return [];
+    }
+    return namespaces
+      .filter(ns => ns && ns.binding && ns.id)
+      .map(ns => ({
+        binding: ns.binding,
+        id: ns.id,
+        ...(ns.preview_id ? { preview_id: ns.preview_id } : {}),
+        ...(env !== undefined ? { env } : {})
+      }));
+  }
+
+  private parseR2Buckets(buckets: unknown, env?: string): WranglerR2Bucket[] {
+    if (!Array.isArray(buckets)) {
+      return [];
+    }
+    return buckets
+      .filter(bucket => bucket && bucket.binding && bucket.bucket_name)
+      .map(bucket => ({
+        binding: bucket.binding,
+        bucket_name: bucket.bucket_name,
+        ...(bucket.preview_bucket_name ? { preview_bucket_name: bucket.preview_bucket_name } : {}),
+        ...(bucket.jurisdiction ? { jurisdiction: bucket.jurisdiction } : {}),
+        ...(env !== undefined ? { env } : {})
+      }));
+  }
+
+  private parseD1Databases(databases: unknown, env?: string): WranglerD1Database[] {
+    if (!Array.isArray(databases)) {
+      return [];
+    }
+    return databases
+      .filter(db => db && db.binding)
+      .map(db => ({
+        binding: db.binding,
+        ...(db.database_name ? { database_name: db.database_name } : {}),
+        ...(db.database_id ? { database_id: db.database_id } : {}),
+        ...(db.preview_database_id ? { preview_database_id: db.preview_database_id } : {}),
+        ...(env !== undefined ? { env } : {})
+      }));
+  }
+
+  private parseDurableObjects(bindings: unknown, env?: string): WranglerDurableObject[] {
+    if (!Array.isArray(bindings)) {
+      return [];
+    }
+    return bindings
+      .filter(binding => binding && binding.name && binding.class_name)
+      .map(binding => ({
+        binding: binding.name,
+        class_name: binding.class_name,
+        ...(binding.script_name ? { script_name: binding.script_name } : {}),
+        ...(env !== undefined ? { env } : {})
+      }));
+  }
+
+  private async parseContent(filePath: string, content: string): Promise<any> {
+    const ext = path.extname(filePath).toLowerCase();
+    if (ext === '.json' || ext === '.jsonc') {
+      // Wrangler accepts comments and trailing commas in both JSON flavours
+      return parseJsonc(content);
+    }
+
+    const tomlLib = await loadToml();
+    return tomlLib ? tomlLib.parse(content) : fallbackParseToml(content);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { execFile } from 'child_process';
+
+/**
+ * Command lines of running `wrangler dev` / workerd processes. Best effort: an empty list
+ * when processes can't be listed on this platform.
+ */
+export function findWranglerDevProcesses(): Promise<string[]> {
+  const [command, args] = process.platform === 'win32'
+    ? ['wmic', ['process', 'get', 'CommandLine']]
+    : ['ps', ['-Ao', 'args']];
+
+  return new Promise(resolve => {
+    execFile(command, args, { maxBuffer: 16 * 1024 * 1024, timeout: 5000 }, (error, stdout) => {
+      if (error) {
+        resolve([]);
+        return;
+      }
+      resolve(
+        stdout
+          .split(/\r?\n/)
+          .map(line => line.trim())
+          .filter(line => /\bwrangler(\.js)?\b.*\bdev\b/.test(line) || /\bworkerd\b.*\bserve\b/.test(line))
+      );
+    });
+  });
+}